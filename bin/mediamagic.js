@@ -0,0 +1,3 @@
+#!/usr/bin/env node
+// Headless entry point, requires `npm run build` first
+require('../out/main/cli.js')
@@ -7,6 +7,11 @@ export default defineConfig({
     plugins: [externalizeDepsPlugin()],
     build: {
       rollupOptions: {
+        // cli.ts is the headless entry point, see bin/mediamagic.js
+        input: {
+          index: resolve('src/main/index.ts'),
+          cli: resolve('src/main/cli.ts')
+        },
         output: {
           dir: 'out/main' // Ensure the output goes where you expect
         }
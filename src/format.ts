@@ -0,0 +1,19 @@
+import { BatchProgress } from './types'
+
+// Shared by the app and the headless CLI, so nothing in here may import electron or node modules
+
+// 'hh:mm:ss', toSeconds in fileUtils reads it back
+export const formatDuration = (seconds: number): string => {
+  const hours = Math.floor(seconds / 3600)
+  const minutes = Math.floor((seconds % 3600) / 60)
+  const remainingSeconds = Math.floor(seconds % 60)
+
+  return [hours, minutes, remainingSeconds].map((v) => v.toString().padStart(2, '0')).join(':')
+}
+
+export const formatBatchProgress = (progress: BatchProgress): string => {
+  if (progress.paused) return `Paused at ${progress.percent.toFixed(0)}%`
+  const eta = progress.etaMs !== null ? formatDuration(progress.etaMs / 1000) : '--:--:--'
+  const speed = (progress.bytesPerSecond / 1024 / 1024).toFixed(1)
+  return `${progress.percent.toFixed(0)}% · ${progress.doneFiles}/${progress.totalFiles} files · ${formatDuration(progress.elapsedMs / 1000)} elapsed · ETA ${eta} · ${speed} MB/s`
+}
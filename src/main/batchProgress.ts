@@ -0,0 +1,134 @@
+import { BatchProgress, ConversionQueue } from '../types'
+import { toSeconds } from './fileUtils'
+import { sendToRenderer } from './messaging'
+
+// Rough encode cost of each media type, so a 4K video doesn't weigh the same as a thumbnail.
+// Units are arbitrary - only the ratios matter. Based on the measurements in zztodo: a second of
+// video takes several seconds of AV1 encoding, audio is close to free, a megapixel of AVIF about a second
+const COST_PER_VIDEO_SECOND = 4
+const COST_PER_AUDIO_SECOND = 0.05
+const COST_PER_MEGAPIXEL = 1
+const FALLBACK_COST = 1 // For files whose duration/size couldn't be probed
+const SEND_INTERVAL_MS = 500 // LIVE_PROGRESS fires many times a second per file, the batch bar doesn't need that
+
+type TrackedItem = { weight: number; bytes: number; fraction: number; done: boolean }
+
+const items = new Map<string, TrackedItem>()
+let startedAt = 0
+let pausedAt: number | null = null
+let pausedTotalMs = 0
+let lastSentAt = 0
+
+const itemWeight = (item: ConversionQueue): number => {
+  switch (item.type) {
+    case 'video':
+      return item.durationSeconds ? item.durationSeconds * COST_PER_VIDEO_SECOND : FALLBACK_COST
+    case 'audio':
+      return item.durationSeconds ? item.durationSeconds * COST_PER_AUDIO_SECOND : FALLBACK_COST
+    default:
+      return item.pixels ? (item.pixels / 1_000_000) * COST_PER_MEGAPIXEL : FALLBACK_COST
+  }
+}
+
+// Per-file percent from the timemark against the probed duration. progress.percent is based on
+// ffmpeg's own duration guess and is often NaN or jumps around (see zztodo), so it's only the fallback
+export const progressPercent = (
+  progress: { timemark?: string; percent?: number },
+  durationSeconds?: number
+): number | null => {
+  const elapsed = toSeconds(progress.timemark)
+  if (durationSeconds && elapsed !== undefined) {
+    return Math.min(100, Math.max(0, (elapsed / durationSeconds) * 100))
+  }
+  if (typeof progress.percent === 'number' && !isNaN(progress.percent)) {
+    return Math.min(100, Math.max(0, progress.percent))
+  }
+  return null
+}
+
+export const startBatchProgress = (queue: ConversionQueue[]): void => {
+  items.clear()
+  queue.forEach((item) =>
+    items.set(item.inputPath, {
+      weight: itemWeight(item),
+      bytes: item.inputBytes ?? 0,
+      fraction: 0,
+      done: false
+    })
+  )
+  startedAt = Date.now()
+  pausedAt = null
+  pausedTotalMs = 0
+  sendBatchProgress(true)
+}
+
+export const updateItemProgress = (inputPath: string, percent: number): void => {
+  const item = items.get(inputPath)
+  if (!item || item.done) return
+  item.fraction = percent / 100
+  sendBatchProgress()
+}
+
+// Failed files count as finished too - there's no work left for them
+export const completeItem = (inputPath: string): void => {
+  const item = items.get(inputPath)
+  if (!item) return
+  item.fraction = 1
+  item.done = true
+  sendBatchProgress(true)
+}
+
+// Cancelled files leave the batch entirely, so the bar doesn't wait for them
+export const removeItem = (inputPath: string): void => {
+  if (items.delete(inputPath)) sendBatchProgress(true)
+}
+
+export const pauseBatchProgress = (): void => {
+  if (pausedAt === null) pausedAt = Date.now()
+  sendBatchProgress(true)
+}
+
+export const resumeBatchProgress = (): void => {
+  if (pausedAt !== null) {
+    pausedTotalMs += Date.now() - pausedAt
+    pausedAt = null
+  }
+  sendBatchProgress(true)
+}
+
+export const getBatchProgress = (): BatchProgress => {
+  let totalWeight = 0
+  let doneWeight = 0
+  let doneBytes = 0
+  let doneFiles = 0
+  for (const item of items.values()) {
+    totalWeight += item.weight
+    doneWeight += item.weight * item.fraction
+    doneBytes += item.bytes * item.fraction
+    if (item.done) doneFiles++
+  }
+
+  const now = pausedAt ?? Date.now()
+  const elapsedMs = Math.max(0, now - startedAt - pausedTotalMs)
+  const fraction = totalWeight > 0 ? doneWeight / totalWeight : 0
+  // Extrapolating from the first percent or the first couple of seconds gives wild numbers
+  const etaMs =
+    fraction >= 0.01 && elapsedMs > 2000 ? (elapsedMs * (1 - fraction)) / fraction : null
+
+  return {
+    percent: fraction * 100,
+    doneFiles,
+    totalFiles: items.size,
+    elapsedMs,
+    etaMs,
+    bytesPerSecond: elapsedMs > 0 ? doneBytes / (elapsedMs / 1000) : 0,
+    paused: pausedAt !== null
+  }
+}
+
+const sendBatchProgress = (force = false): void => {
+  const now = Date.now()
+  if (!force && now - lastSentAt < SEND_INTERVAL_MS) return
+  lastSentAt = now
+  sendToRenderer('BATCH_PROGRESS', getBatchProgress())
+}
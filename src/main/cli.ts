@@ -0,0 +1,408 @@
+import path from 'path'
+import os from 'os'
+import bytes from 'bytes'
+import { parseArgs } from 'util'
+import { handleGetDetails } from './fileUtils'
+import { convertExplorer, handleStopAllFFMPEGProcesses, resumeJob } from './ffmpegUtils'
+import { getPreset, loadPresets } from './presets'
+import { setMessageHandler } from './messaging'
+import { MANIFEST_NAME } from './jobManifest'
+import { resolveOptions } from './options'
+import { createRunDir, listInPlaceRuns, undoInPlaceRun } from './inPlace'
+import {
+  BatchProgress,
+  CollisionPolicy,
+  ConversionOptions,
+  ErrorPolicy,
+  FailedItem,
+  FailureKind,
+  NamingOptions,
+  SizeGuard,
+  SkipPolicy,
+  VideoRate
+} from '../types'
+import { formatBatchProgress } from '../format'
+
+// Headless entry point - runs the same scan (handleGetDetails) and queue (convertExplorer) as the app,
+// but reports to stdout/stderr instead of a BrowserWindow. Nothing in here may import electron,
+// so it runs under plain node on machines without a display.
+
+const usage = `Usage:
+  mediamagic convert <inputs...> --out <dir> [--preset <name>] [--presets-file <file>]
+                     [--continue-on-error] [--retries <n>] [--retry-on <kinds>] [--fallback-encoder <name>]
+                     [--skip <copy|omit|off>] [--min-savings <percent|off>]
+                     [--name <template>] [--flatten] [--on-collision <policy>] [--target-size <size>]
+  mediamagic convert <inputs...> --in-place [--backup-dir <dir>] [same options as above]
+  mediamagic resume --out <dir>
+  mediamagic resume --run <run-dir>
+  mediamagic undo [<run-dir>] [--backup-dir <dir>]
+  mediamagic presets [--presets-file <file>]
+
+Converted files are written to <dir>/converted, mirroring the input tree.
+--in-place replaces each file with its converted version instead, backing up the original in a run folder
+inside --backup-dir (default: ~/.mediamagic/in-place-backups). undo restores the originals of a run, without
+a run folder it lists the runs that can be undone.
+--retry-on takes a comma separated list of: corrupt-input, unsupported-codec, disk-full, encoder-missing, unknown.
+--skip decides what happens to files that are already efficiently encoded (default: copy).
+--min-savings keeps a copy of the original when converting saves less than that (default: 5).
+--name builds output names from {name} {ext} {preset} {date} {width} {height} {relpath} (default: {name}).
+--on-collision is one of overwrite, skip, auto-number (default) or fail.
+--target-size encodes every video in two passes to at most that size (e.g. 25MB) instead of at the preset's quality.
+resume continues a batch that was interrupted, using the job manifest in <dir>/converted or the run folder.
+Exit codes: 0 all files converted, 1 conversion failed or was stopped, 2 bad usage.`
+
+type BatchResult = { failures: FailedItem[]; stopped: boolean }
+
+// Resolves once the queue reports it is either complete or stopped
+const waitForBatch = (): Promise<BatchResult> => {
+  const result: BatchResult = { failures: [], stopped: false }
+  const lastReported = new Map<string, number>() // Progress is printed in 10% steps to keep logs readable
+  let lastBatchStep = -1
+
+  return new Promise((resolve) => {
+    setMessageHandler({
+      send: (channel, ...args) => {
+        switch (channel) {
+          case 'LIVE_PROGRESS': {
+            const [inputPath, percent] = args as [string, number]
+            const step = Math.floor(percent / 10) * 10
+            if (step !== lastReported.get(inputPath)) {
+              lastReported.set(inputPath, step)
+              console.log(`[${step}%] ${inputPath}`)
+            }
+            break
+          }
+          case 'BATCH_PROGRESS': {
+            const progress = args[0] as BatchProgress
+            const step = Math.floor(progress.percent / 5) * 5 // The batch line is printed in 5% steps
+            if (step !== lastBatchStep) {
+              lastBatchStep = step
+              console.log(`[batch] ${formatBatchProgress(progress)}`)
+            }
+            break
+          }
+          case 'ITEM_FAILED': {
+            const [inputPath, failure] = args as [string, FailedItem]
+            result.failures.push(failure)
+            console.error(`[error] ${inputPath} (${failure.kind}): ${failure.message}`)
+            break
+          }
+          case 'ITEM_SKIPPED': {
+            const [inputPath, reason, copied] = args as [string, string, boolean]
+            console.log(
+              `[skipped] ${inputPath} (${reason}, ${copied ? 'copied as-is' : 'left out'})`
+            )
+            break
+          }
+          case 'ITEM_KEPT_ORIGINAL': {
+            const [inputPath, inputSize, outputSize] = args as [string, number, number]
+            console.log(
+              `[kept original] ${inputPath} (converted was ${bytes(outputSize)} vs ${bytes(inputSize)})`
+            )
+            break
+          }
+          case 'ITEM_TARGET_SIZE': {
+            const [inputPath, outputSize, targetBytes] = args as [string, number, number]
+            if (outputSize <= targetBytes) {
+              console.log(
+                `[target met] ${inputPath} (${bytes(outputSize)} of ${bytes(targetBytes)})`
+              )
+            } else {
+              console.error(
+                `[target missed] ${inputPath} (${bytes(outputSize)}, over the ${bytes(targetBytes)} target)`
+              )
+            }
+            break
+          }
+          case 'CONVERSION_CANCELLED':
+            console.log(`[cancelled] ${args[0]}`)
+            break
+          case 'CONVERSION_STOPPED':
+            result.stopped = true
+            resolve(result)
+            break
+          case 'CONVERSION_COMPLETE':
+            resolve(result)
+            break
+        }
+      },
+      log: (message) => console.log(message)
+    })
+  })
+}
+
+const runConvert = async (
+  inputs: string[],
+  outputDir: string | undefined,
+  presetName: string | undefined,
+  presetsFile: string | undefined,
+  options: ConversionOptions
+): Promise<number> => {
+  if (inputs.length === 0 || (!outputDir && !options.inPlace.enabled)) {
+    console.error(usage)
+    return 2
+  }
+
+  const preset = await getPreset(presetName, presetsFile)
+  const explorer = await handleGetDetails(
+    null,
+    inputs.map((input) => path.resolve(input))
+  )
+  if (explorer.length === 0) {
+    console.error('No media files found in the given inputs')
+    return 1
+  }
+
+  // In place, the run folder takes the output folder's place - it holds the backups, journal and job manifest
+  if (options.inPlace.enabled) {
+    const runDir = await createRunDir(
+      getBackupRoot(options.inPlace.backupDir),
+      options.inPlace.originals
+    )
+    console.log(
+      `Converting in place using preset '${preset.name}', originals are backed up in ${runDir}`
+    )
+    return await runBatch(() => convertExplorer(explorer, runDir, preset, options))
+  }
+
+  const newOutputDir = path.join(path.resolve(outputDir!), 'converted')
+  console.log(`Converting to ${newOutputDir} using preset '${preset.name}'`)
+
+  return await runBatch(() => convertExplorer(explorer, newOutputDir, preset, options))
+}
+
+const runResume = async (
+  outputDir: string | undefined,
+  runDir: string | undefined
+): Promise<number> => {
+  if (!outputDir && !runDir) {
+    console.error(usage)
+    return 2
+  }
+
+  const manifestPath = runDir
+    ? path.join(path.resolve(runDir), MANIFEST_NAME)
+    : path.join(path.resolve(outputDir!), 'converted', MANIFEST_NAME)
+  return await runBatch(async () => {
+    const remaining = await resumeJob(manifestPath)
+    console.log(`Resuming ${manifestPath}, ${remaining.length} file(s) left`)
+  })
+}
+
+// The app keeps its backups in its data folder, the CLI has none - so they go to the user's home
+const getBackupRoot = (backupDir: string): string =>
+  backupDir || path.join(os.homedir(), '.mediamagic', 'in-place-backups')
+
+const runUndo = async (
+  runDir: string | undefined,
+  backupDir: string | undefined
+): Promise<number> => {
+  if (!runDir) {
+    const runs = await listInPlaceRuns(getBackupRoot(backupDir ?? ''))
+    if (runs.length === 0) {
+      console.log('There are no in-place conversions to undo')
+      return 0
+    }
+    console.log('Pass one of these run folders to undo it:')
+    runs.forEach((run) => console.log(`${run.runDir}\t${run.files} file(s), ${run.createdAt}`))
+    return 2
+  }
+
+  const { restored, notRestored } = await undoInPlaceRun(path.resolve(runDir))
+  console.log(`${restored} original file(s) restored`)
+  if (notRestored.length > 0) {
+    console.error('These originals could not be restored, their backup is missing:')
+    notRestored.forEach((file) => console.error(file))
+    return 1
+  }
+  return 0
+}
+
+const runBatch = async (start: () => Promise<void>): Promise<number> => {
+  // Ctrl+C stops the batch like quitting the app does - the job manifest is kept so `resume` can continue it
+  process.once('SIGINT', () => {
+    console.error('Interrupted, stopping conversion...')
+    handleStopAllFFMPEGProcesses()
+  })
+
+  const batch = waitForBatch()
+  await start()
+  const { failures, stopped } = await batch
+
+  if (failures.length > 0 || stopped) {
+    // Repeat the failures at the end with ffmpeg's own words, they're easy to miss in the progress output
+    failures.forEach((failure) => {
+      console.error(`\n${failure.inputPath} (${failure.kind}, ${failure.attempts} attempt(s)):`)
+      console.error(failure.stderr || failure.message)
+    })
+    console.error(`\nConversion failed (${failures.length} file(s) with errors)`)
+    return 1
+  }
+  console.log('Conversion is complete!')
+  return 0
+}
+
+// '25MB' turns on target-size mode, without the flag videos are encoded at the preset's quality
+const parseTargetSize = (size: string | undefined): Partial<VideoRate> => {
+  if (size === undefined) return {}
+  const targetBytes = bytes.parse(size)
+  if (!targetBytes || targetBytes <= 0)
+    throw new Error(`Invalid --target-size '${size}', use e.g. 25MB`)
+  return { mode: 'target-size', targetBytes }
+}
+
+const failureKinds: FailureKind[] = [
+  'corrupt-input',
+  'unsupported-codec',
+  'disk-full',
+  'encoder-missing',
+  'unknown'
+]
+
+// --retries and --retry-on, null when either is malformed - a NaN retry count would retry forever
+const parseRetryFlags = (
+  retries: string | undefined,
+  retryOn: string | undefined
+): Partial<ErrorPolicy> | null => {
+  const maxRetries = retries !== undefined ? Number(retries) : undefined
+  if (maxRetries !== undefined && (!Number.isInteger(maxRetries) || maxRetries < 0)) {
+    console.error(`Invalid --retries '${retries}', use a whole number of 0 or more`)
+    return null
+  }
+  const kinds = retryOn?.split(',').map((kind) => kind.trim())
+  const unknownKind = kinds?.find((kind) => !failureKinds.includes(kind as FailureKind))
+  if (unknownKind !== undefined) {
+    console.error(`Unknown --retry-on kind '${unknownKind}'`)
+    return null
+  }
+  return { maxRetries, retryOn: kinds as FailureKind[] | undefined }
+}
+
+// --min-savings, null when it isn't 'off' or a percent - a NaN would keep the original of every file
+const parseMinSavings = (minSavings: string | undefined): Partial<SizeGuard> | null => {
+  if (minSavings === undefined) return {}
+  if (minSavings === 'off') return { enabled: false }
+  const minSavingsPercent = Number(minSavings)
+  if (
+    minSavings.trim() === '' ||
+    isNaN(minSavingsPercent) ||
+    minSavingsPercent < 0 ||
+    minSavingsPercent > 100
+  ) {
+    console.error(`Invalid --min-savings '${minSavings}', use a percent from 0 to 100 or off`)
+    return null
+  }
+  return { enabled: true, minSavingsPercent }
+}
+
+// --skip, null for anything but copy, omit or off - a typo must not quietly copy files meant to be left out
+const parseSkip = (skip: string | undefined): Partial<SkipPolicy> | null => {
+  if (skip === undefined) return {}
+  if (skip === 'off') return { enabled: false }
+  if (skip !== 'copy' && skip !== 'omit') {
+    console.error(`Invalid --skip '${skip}', use copy, omit or off`)
+    return null
+  }
+  return { enabled: true, action: skip }
+}
+
+const collisionPolicies: CollisionPolicy[] = ['overwrite', 'skip', 'auto-number', 'fail']
+
+// --on-collision, null for anything but the four policies - an unknown one would skip every colliding file
+const parseCollision = (collision: string | undefined): Partial<NamingOptions> | null => {
+  if (collision === undefined) return {}
+  if (!collisionPolicies.includes(collision as CollisionPolicy)) {
+    console.error(`Unknown --on-collision policy '${collision}'`)
+    return null
+  }
+  return { collision: collision as CollisionPolicy }
+}
+
+const runCli = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', short: 'o' },
+      preset: { type: 'string', short: 'p' },
+      'presets-file': { type: 'string' },
+      'continue-on-error': { type: 'boolean' },
+      retries: { type: 'string' },
+      'retry-on': { type: 'string' },
+      'fallback-encoder': { type: 'string' },
+      skip: { type: 'string' },
+      'min-savings': { type: 'string' },
+      name: { type: 'string' },
+      flatten: { type: 'boolean' },
+      'on-collision': { type: 'string' },
+      'target-size': { type: 'string' },
+      'in-place': { type: 'boolean' },
+      'backup-dir': { type: 'string' },
+      run: { type: 'string' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  })
+  const [command, ...inputs] = positionals
+
+  if (values.help) {
+    console.log(usage)
+    return 0
+  }
+
+  switch (command) {
+    case 'convert': {
+      const retryFlags = parseRetryFlags(values.retries, values['retry-on'])
+      const skipPolicy = parseSkip(values.skip)
+      const sizeGuard = parseMinSavings(values['min-savings'])
+      const collisionFlag = parseCollision(values['on-collision'])
+      if (!retryFlags || !skipPolicy || !sizeGuard || !collisionFlag) {
+        console.error(usage)
+        return 2
+      }
+      return await runConvert(
+        inputs,
+        values.out,
+        values.preset,
+        values['presets-file'],
+        resolveOptions({
+          errorPolicy: {
+            continueOnError: values['continue-on-error'],
+            ...retryFlags,
+            fallbackEncoder: values['fallback-encoder']
+          },
+          skipPolicy,
+          sizeGuard,
+          naming: {
+            template: values.name,
+            flatten: values.flatten,
+            ...collisionFlag
+          },
+          inPlace: {
+            enabled: values['in-place'],
+            backupDir: values['backup-dir']
+          },
+          videoRate: parseTargetSize(values['target-size'])
+        })
+      )
+    }
+    case 'resume':
+      return await runResume(values.out, values.run)
+    case 'undo':
+      return await runUndo(inputs[0], values['backup-dir'])
+    case 'presets': {
+      const presets = await loadPresets(values['presets-file'])
+      presets.forEach((preset) => console.log(`${preset.name}\t${preset.description ?? ''}`))
+      return 0
+    }
+    default:
+      console.error(usage)
+      return 2
+  }
+}
+
+runCli(process.argv.slice(2))
+  .then((code) => process.exit(code))
+  .catch((err) => {
+    console.error(err instanceof Error ? err.message : err)
+    process.exit(2)
+  })
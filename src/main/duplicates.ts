@@ -0,0 +1,148 @@
+import crypto from 'crypto'
+import { createReadStream } from 'fs'
+import fs from 'fs/promises'
+import ffmpeg from 'fluent-ffmpeg'
+import { DirItem, DuplicateGroup } from '../types'
+
+// Finds files of the selection with the same content, so only one copy is converted (see DuplicateOptions).
+// Hashing everything would read the whole selection, so candidates are narrowed down step by step: only files
+// of equal size can be identical, of those only the ones whose start and end match are hashed whole.
+// Near-duplicate images (re-saved, resized) are found by a difference hash of a tiny grayscale thumbnail
+const PARTIAL_BYTES = 64 * 1024
+const HASH_SIZE = 8 // The difference hash compares 9x8 pixels, 64 bits
+const SIMILAR_MAX_DISTANCE = 6 // Differing bits that still count as the same picture
+
+const collectFiles = (items: DirItem[]): DirItem[] =>
+  items.flatMap((item) => (item.type === 'folder' ? collectFiles(item.children ?? []) : [item]))
+
+// Groups of two or more, in selection order - the first file of a group is the one that's converted
+const groupBy = async (
+  files: DirItem[],
+  key: (file: DirItem) => Promise<string | null>
+): Promise<DirItem[][]> => {
+  const groups = new Map<string, DirItem[]>()
+  for (const file of files) {
+    const fileKey = await key(file)
+    if (fileKey !== null) groups.set(fileKey, [...(groups.get(fileKey) ?? []), file])
+  }
+  return [...groups.values()].filter((group) => group.length > 1)
+}
+
+const sizeOf = async (file: DirItem): Promise<number> =>
+  file.sizeBytes ?? (await fs.stat(file.path)).size
+
+// The first and last PARTIAL_BYTES - for small files that's the whole file
+const partialHash = async (file: DirItem): Promise<string> => {
+  const size = await sizeOf(file)
+  const handle = await fs.open(file.path, 'r')
+  try {
+    const hash = crypto.createHash('sha1')
+    const head = Buffer.alloc(Math.min(size, PARTIAL_BYTES))
+    await handle.read(head, 0, head.length, 0)
+    hash.update(head)
+    if (size > PARTIAL_BYTES) {
+      const tail = Buffer.alloc(Math.min(size - PARTIAL_BYTES, PARTIAL_BYTES))
+      await handle.read(tail, 0, tail.length, size - tail.length)
+      hash.update(tail)
+    }
+    return hash.digest('hex')
+  } finally {
+    await handle.close()
+  }
+}
+
+const fullHash = (file: DirItem): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha1')
+    createReadStream(file.path)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject)
+  })
+}
+
+// 64 '0'/'1' characters, null if ffmpeg couldn't read the image
+const differenceHash = (file: DirItem): Promise<string | null> => {
+  return new Promise((resolve) => {
+    const chunks: Buffer[] = []
+    // prettier-ignore
+    const options = [
+      '-frames:v', '1',
+      '-vf', `scale=${HASH_SIZE + 1}:${HASH_SIZE}:flags=area,format=gray`,
+      '-f', 'rawvideo'
+    ]
+    const command = ffmpeg(file.path)
+      .outputOptions(options)
+      .on('error', () => resolve(null))
+    command
+      .pipe()
+      .on('data', (chunk: Buffer) => chunks.push(chunk))
+      .on('end', () => {
+        const pixels = Buffer.concat(chunks)
+        if (pixels.length !== (HASH_SIZE + 1) * HASH_SIZE) return resolve(null)
+        let bits = ''
+        for (let y = 0; y < HASH_SIZE; y++) {
+          for (let x = 0; x < HASH_SIZE; x++) {
+            const i = y * (HASH_SIZE + 1) + x
+            bits += pixels[i] < pixels[i + 1] ? '1' : '0'
+          }
+        }
+        resolve(bits)
+      })
+  })
+}
+
+const hammingDistance = (a: string, b: string): number =>
+  [...a].filter((bit, i) => bit !== b[i]).length
+
+const findSimilarImages = async (images: DirItem[]): Promise<DirItem[][]> => {
+  const clusters: { hash: string; files: DirItem[] }[] = []
+  for (const image of images) {
+    const hash = await differenceHash(image)
+    if (!hash) continue
+    const cluster = clusters.find((c) => hammingDistance(c.hash, hash) <= SIMILAR_MAX_DISTANCE)
+    if (cluster) cluster.files.push(image)
+    else clusters.push({ hash, files: [image] })
+  }
+  return clusters.map((c) => c.files).filter((files) => files.length > 1)
+}
+
+export const findDuplicates = async (
+  explorer: DirItem[],
+  similarImages = false
+): Promise<DuplicateGroup[]> => {
+  const files = collectFiles(explorer)
+
+  const exact: DirItem[][] = []
+  for (const sameSize of await groupBy(files, async (file) => String(await sizeOf(file)))) {
+    for (const samePartial of await groupBy(sameSize, partialHash)) {
+      // Files no bigger than the two partial reads were hashed whole already
+      if ((await sizeOf(samePartial[0])) <= PARTIAL_BYTES * 2) exact.push(samePartial)
+      else exact.push(...(await groupBy(samePartial, fullHash)))
+    }
+  }
+
+  const groups: DuplicateGroup[] = await Promise.all(
+    exact.map(async (group) => ({
+      kind: 'exact' as const,
+      paths: group.map((file) => file.path),
+      sizeBytes: await sizeOf(group[0])
+    }))
+  )
+  if (!similarImages) return groups
+
+  // Exact copies are already taken care of, only the copy that's converted is compared further.
+  // Animations are left out, their first frame says little about the rest
+  const copies = new Set(groups.flatMap((group) => group.paths.slice(1)))
+  const images = files.filter(
+    (file) => file.ext === 'image' && !file.media?.animated && !copies.has(file.path)
+  )
+  for (const similar of await findSimilarImages(images)) {
+    groups.push({
+      kind: 'similar',
+      paths: similar.map((file) => file.path),
+      sizeBytes: await sizeOf(similar[0])
+    })
+  }
+  return groups
+}
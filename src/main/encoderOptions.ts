@@ -0,0 +1,203 @@
+import {
+  AudioPresetSettings,
+  AudioTarget,
+  ConversionPreset,
+  ext,
+  ImagePresetSettings,
+  ImageTraits,
+  VideoPresetSettings
+} from '../types'
+
+// The encoder part of a preset as ffmpeg options - shared by the batch conversion (ffmpegUtils.ts) and the
+// test encode (testEncode.ts), so a test always encodes exactly like the real thing
+
+type AudioTargetInfo = {
+  codec: string
+  container: string
+  sampleRates?: number[] // The rates the encoder accepts, the first is its default
+  usesBitrate: boolean
+}
+
+export const audioTargets: Record<AudioTarget, AudioTargetInfo> = {
+  mp3: { codec: 'libmp3lame', container: 'mp3', usesBitrate: true },
+  opus: {
+    codec: 'libopus',
+    container: 'opus',
+    sampleRates: [48000, 24000, 16000, 12000, 8000],
+    usesBitrate: true
+  },
+  aac: { codec: 'aac', container: 'm4a', usesBitrate: true },
+  flac: { codec: 'flac', container: 'flac', usesBitrate: false }
+}
+
+// Job manifests written before audio targets existed have no target - everything was MP3 back then
+const audioTargetOf = (settings: AudioPresetSettings): AudioTargetInfo =>
+  audioTargets[settings.target] ?? audioTargets.mp3
+
+const isAnimatedWebm = (settings: ImagePresetSettings, traits?: ImageTraits): boolean =>
+  !!traits?.animated && settings.animatedContainer === 'webm'
+
+export const getContainer = (type: ext, preset: ConversionPreset, traits?: ImageTraits): string => {
+  switch (type) {
+    case 'audio':
+      return audioTargetOf(preset.audio).container
+    case 'video':
+      return preset.video.container
+    default:
+      return isAnimatedWebm(preset.image, traits) ? 'webm' : preset.image.container
+  }
+}
+
+// Scales down to maxWidth only if the input is wider, -2 keeps the height even as encoders require
+export const scaleFilter = (maxWidth: number): string =>
+  `scale='min(${maxWidth},iw):-2:flags=lanczos'`
+
+const CONTAINER_OVERHEAD = 0.03 // Share of a file taken by the container, plus some room for encoder overshoot
+const MIN_VIDEO_BITRATE = 50_000 // Anything lower is a slideshow of blocks
+
+// '64k' or '1.5M' to bits per second
+export const parseBitrate = (bitrate: string): number => {
+  const [, value, unit] = bitrate.trim().match(/^([\d.]+)\s*([kKmM]?)/) ?? []
+  const multiplier = { k: 1000, m: 1_000_000 }[unit?.toLowerCase()] ?? 1
+  return Number(value ?? 0) * multiplier
+}
+
+// The video bitrate that makes a file of this duration come out at targetBytes, after the audio tracks and
+// the container took their share. Throws if that leaves too little for the picture
+export const targetVideoBitrate = (
+  targetBytes: number,
+  durationSeconds: number | undefined,
+  audioBitsPerSecond: number
+): number => {
+  if (!durationSeconds) {
+    throw new Error(
+      'The duration of this video is unknown, so no bitrate can be worked out for the target size'
+    )
+  }
+  const totalBits = targetBytes * 8 * (1 - CONTAINER_OVERHEAD)
+  const audioBits = audioBitsPerSecond * durationSeconds
+  const videoBitrate = Math.floor((totalBits - audioBits) / durationSeconds)
+  if (videoBitrate < MIN_VIDEO_BITRATE) {
+    throw new Error(
+      `A ${Math.round(durationSeconds)}s video doesn't fit into ${(targetBytes / 1024 / 1024).toFixed(1)}MB, it would get ${Math.max(0, Math.round(videoBitrate / 1000))}kb/s of video`
+    )
+  }
+  return videoBitrate
+}
+
+// Without a bitrate the preset's CRF decides the quality and the size follows from it
+// prettier-ignore
+export const videoEncoderOptions = (settings: VideoPresetSettings, videoBitrate?: number): string[] => [
+  // Video codec and settings
+  '-c:v', settings.codec,
+  ...(videoBitrate
+    ? ['-b:v', videoBitrate.toString()]
+    : ['-crf', settings.crf.toString(), '-b:v', '0']), // Let CRF control bitrate
+  '-preset', settings.encoderPreset,
+  '-vf', scaleFilter(settings.maxWidth),
+
+  // Audio settings
+  '-c:a', settings.audioCodec,
+  '-b:a', settings.audioBitrate,
+  '-ac', settings.audioChannels.toString()
+]
+
+const DEFAULT_SAMPLE_RATE = 44100
+
+// Also sets the sample rate on purpose - loudnorm upsamples to 192kHz and the output would keep that
+export const audioEncoderOptions = (settings: AudioPresetSettings): string[] => {
+  const target = audioTargetOf(settings)
+  const sampleRate =
+    !target.sampleRates || (settings.sampleRate && target.sampleRates.includes(settings.sampleRate))
+      ? (settings.sampleRate ?? DEFAULT_SAMPLE_RATE)
+      : target.sampleRates[0]
+  // -q:a means something different to every encoder, only LAME's VBR scale is used
+  const quality =
+    settings.target === 'mp3' && settings.quality !== undefined
+      ? ['-q:a', settings.quality.toString()]
+      : []
+
+  // prettier-ignore
+  return [
+    '-c:a', target.codec,
+    ...(target.usesBitrate ? ['-b:a', settings.bitrate] : []),
+    ...quality, // VBR wins over the bitrate
+    '-ac', settings.channels.toString(),
+    '-ar', sampleRate.toString()
+  ]
+}
+
+const LOUDNESS_TRUE_PEAK = -1.5 // dBTP, leaves room for lossy encoders overshooting
+const LOUDNESS_RANGE = 11 // LU, loudnorm's default
+
+// What the first loudnorm pass measured - it prints these as JSON at the end of its stderr
+export type LoudnessMeasurement = {
+  input_i: string
+  input_tp: string
+  input_lra: string
+  input_thresh: string
+  target_offset: string
+}
+
+// EBU R128 normalization in two passes - the first only measures (see parseLoudnessMeasurement),
+// the second applies the measured values linearly, so the dynamics are kept instead of compressed
+export const loudnessMeasureFilter = (loudness: number): string =>
+  `loudnorm=I=${loudness}:TP=${LOUDNESS_TRUE_PEAK}:LRA=${LOUDNESS_RANGE}:print_format=json`
+
+export const loudnessNormalizeFilter = (loudness: number, measured: LoudnessMeasurement): string =>
+  [
+    `loudnorm=I=${loudness}:TP=${LOUDNESS_TRUE_PEAK}:LRA=${LOUDNESS_RANGE}`,
+    `measured_I=${measured.input_i}`,
+    `measured_TP=${measured.input_tp}`,
+    `measured_LRA=${measured.input_lra}`,
+    `measured_thresh=${measured.input_thresh}`,
+    `offset=${measured.target_offset}`,
+    'linear=true'
+  ].join(':')
+
+// Null for digital silence - it measures as -inf and there's nothing to normalize
+export const parseLoudnessMeasurement = (stderr: string): LoudnessMeasurement | null => {
+  const json = stderr.slice(stderr.lastIndexOf('{'), stderr.lastIndexOf('}') + 1)
+  let measured: LoudnessMeasurement
+  try {
+    measured = JSON.parse(json)
+  } catch (err) {
+    throw new Error('Could not measure the loudness, loudnorm printed no measurement')
+  }
+  return isFinite(Number(measured.input_i)) ? measured : null
+}
+
+// Images take a single pass - a two-pass encode of one frame has nothing to learn from the first pass.
+// Stills are encoded as one frame, animations keep all frames and their timing.
+// Transparency: AVIF stores alpha as a second, grayscale picture next to the colour one, so the alpha plane is
+// split off into its own stream. WebM can only do alpha with VP9, which takes it within a single stream.
+// Lossless needs libaom (svt-av1 has no lossless mode) and stays in RGB (gbrp), as any YUV conversion loses
+// a little colour
+export const imageEncoderOptions = (
+  settings: ImagePresetSettings,
+  traits?: ImageTraits
+): string[] => {
+  const vp9Alpha = isAnimatedWebm(settings, traits) && !!traits?.alpha
+  const scale = scaleFilter(settings.maxWidth)
+  const frames = traits?.animated ? [] : ['-frames:v', '1']
+
+  // prettier-ignore
+  const codec = settings.lossless
+    ? ['-c:v', 'libaom-av1', '-crf', '0', '-b:v', '0', '-aom-params', 'lossless=1', '-cpu-used', settings.encoderPreset, '-row-mt', '1']
+    : vp9Alpha
+      ? ['-c:v', 'libvpx-vp9', '-crf', settings.crf.toString(), '-b:v', '0']
+      : ['-c:v', settings.codec, '-crf', settings.crf.toString(), '-preset', settings.encoderPreset]
+
+  if (vp9Alpha) return [...codec, ...frames, '-vf', `${scale},format=yuva420p`]
+
+  const pixelFormat = settings.lossless ? 'gbrp' : 'yuv420p'
+  if (!traits?.alpha) return [...codec, ...frames, '-vf', `${scale},format=${pixelFormat}`]
+
+  const alphaGraph = [
+    `[0:v]${scale},format=${settings.lossless ? 'gbrap' : 'yuva420p'},split[main][alpha]`,
+    `[main]format=${pixelFormat}[colour]`,
+    '[alpha]alphaextract[alphaplane]'
+  ].join(';')
+  // prettier-ignore
+  return [...codec, ...frames, '-filter_complex', alphaGraph, '-map', '[colour]', '-map', '[alphaplane]']
+}
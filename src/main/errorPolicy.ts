@@ -0,0 +1,37 @@
+import { ErrorPolicy, FailedItem, FailureKind } from '../types'
+
+// ffmpeg has no error codes worth speaking of, so failures are classified by what it printed.
+// The first matching kind wins - disk full is checked first since it can surface as any other error
+const failurePatterns: [FailureKind, RegExp][] = [
+  ['disk-full', /No space left on device|ENOSPC|Disk quota exceeded/i],
+  [
+    'encoder-missing',
+    /Unknown encoder|Encoder not found|encoder .* not found|Error selecting an encoder/i
+  ],
+  [
+    'unsupported-codec',
+    /Decoder \(codec .*\) not found|Unsupported codec|could not find codec parameters|not currently supported in container|Could not find tag for codec/i
+  ],
+  [
+    'corrupt-input',
+    /Invalid data found when processing input|moov atom not found|Error while decoding|corrupt|Truncating packet|End of file/i
+  ]
+]
+
+export const classifyFailure = (message: string, stderr: string): FailureKind => {
+  const output = `${message}\n${stderr}`
+  return failurePatterns.find(([, pattern]) => pattern.test(output))?.[0] ?? 'unknown'
+}
+
+export const shouldRetry = (failure: FailedItem, policy: ErrorPolicy): boolean => {
+  if (failure.attempts > policy.maxRetries) return false
+  if (!policy.retryOn.includes(failure.kind)) return false
+  // Running the same missing encoder again can't work - only a fallback encoder gives it a chance
+  if (failure.kind === 'encoder-missing' && !policy.fallbackEncoder) return false
+  return true
+}
+
+// Keeps the end of stderr only - that's where ffmpeg explains what went wrong
+export const stderrTail = (stderr: string | undefined, lines = 20): string => {
+  return (stderr ?? '').trim().split('\n').slice(-lines).join('\n')
+}
@@ -0,0 +1,222 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import ffmpeg from 'fluent-ffmpeg'
+import { ConversionOptions, ConversionPreset, DirItem, SelectionEstimate } from '../types'
+import { getContainer } from './encoderOptions'
+import { toSeconds } from './fileUtils'
+import { skipReason } from './skipPolicy'
+import { encodeSegment } from './testEncode'
+
+// Guesses what converting a whole selection produces and how long it takes, before anything is converted.
+// Files are grouped by what changes how they encode (type, codec, resolution). The median file of each of
+// the biggest groups gets a few short segments encoded, and its group is extrapolated from that sample.
+// Smaller groups borrow the average sample of their media type
+const MAX_SAMPLED_GROUPS = 6
+const SEGMENT_SECONDS = 2
+const SEGMENT_POSITIONS = [0.2, 0.5, 0.8] // Several spots, a single one is easily a static title card
+
+type EstimateFile = { item: DirItem; bytes: number; units: number }
+
+// Encode cost is per second of media, images per megapixel. Files that couldn't be probed count as one unit
+type Sample = { sizeRatio: number; secondsPerUnit: number }
+
+let currentEstimate = 0 // Bumped to abandon a running estimate
+let activeCommand: ReturnType<typeof ffmpeg> | null = null // The sample encode running right now
+
+// Abandons the running estimate and kills its sample encode - it would keep a core busy until it's done
+export const cancelEstimate = (): void => {
+  currentEstimate++
+  activeCommand?.kill('SIGKILL')
+  activeCommand = null
+}
+
+// A sample starting after its estimate was abandoned had nothing to kill yet - it goes as soon as it starts
+const trackSample = (command: ReturnType<typeof ffmpeg>, estimateId: number): void => {
+  if (estimateId === currentEstimate) activeCommand = command
+  command.on('start', () => {
+    if (estimateId !== currentEstimate) command.kill('SIGKILL')
+  })
+}
+
+const collectFiles = (items: DirItem[]): DirItem[] =>
+  items.flatMap((item) => (item.type === 'folder' ? collectFiles(item.children ?? []) : [item]))
+
+const costUnits = (item: DirItem): number => {
+  if (item.ext === 'image') {
+    const { width, height } = item.media ?? {}
+    return width && height ? (width * height) / 1_000_000 : 1
+  }
+  return toSeconds(item.duration) || 1
+}
+
+const resolutionClass = (height?: number): string => {
+  if (!height) return ''
+  return height > 1440 ? '4k' : height > 720 ? 'hd' : 'sd'
+}
+
+const groupKey = ({ item }: EstimateFile): string =>
+  [
+    item.ext,
+    item.ext === 'audio' ? item.media?.audioCodec : item.media?.videoCodec,
+    resolutionClass(item.media?.height)
+  ].join('|')
+
+const sampleFile = async (
+  file: EstimateFile,
+  preset: ConversionPreset,
+  options: ConversionOptions,
+  tempDir: string,
+  estimateId: number
+): Promise<Sample> => {
+  const duration = toSeconds(file.item.duration)
+  // Long enough files get a few short segments, everything else is encoded whole
+  const seconds =
+    file.item.ext !== 'image' && duration && duration > SEGMENT_SECONDS * 10
+      ? SEGMENT_SECONDS
+      : undefined
+  const starts = seconds ? SEGMENT_POSITIONS.map((position) => duration! * position) : [0]
+
+  const imageTraits =
+    file.item.ext === 'image'
+      ? { alpha: file.item.media?.alpha, animated: file.item.media?.animated }
+      : undefined
+  let encodedBytes = 0
+  const startedAt = Date.now()
+  for (const [i, start] of starts.entries()) {
+    const outputFile = path.join(
+      tempDir,
+      `sample-${i}.${getContainer(file.item.ext, preset, imageTraits)}`
+    )
+    await encodeSegment(
+      file.item.path,
+      file.item.ext,
+      preset,
+      start,
+      seconds,
+      outputFile,
+      {
+        videoRate: options.videoRate,
+        durationSeconds: duration,
+        tracks: file.item.media?.tracks,
+        trackActions: file.item.trackActions,
+        imageTraits
+      },
+      (command) => trackSample(command, estimateId)
+    )
+    encodedBytes += (await fs.stat(outputFile)).size
+  }
+
+  const share = seconds ? (starts.length * seconds) / duration! : 1
+  return {
+    sizeRatio: encodedBytes / Math.max(1, file.bytes * share),
+    secondsPerUnit: (Date.now() - startedAt) / 1000 / (file.units * share)
+  }
+}
+
+const averageSample = (samples: Sample[]): Sample | undefined => {
+  if (samples.length === 0) return undefined
+  return {
+    sizeRatio: samples.reduce((sum, s) => sum + s.sizeRatio, 0) / samples.length,
+    secondsPerUnit: samples.reduce((sum, s) => sum + s.secondsPerUnit, 0) / samples.length
+  }
+}
+
+// Skipped files are copied (or left out) as-is and the size guard keeps originals that wouldn't shrink enough,
+// so both change the projected size the same way the batch will. The encode time is the sum over all files -
+// samples run with all cores like the batch's workers do together, so that's close to the time it takes
+export const estimateSelection = async (
+  explorer: DirItem[],
+  preset: ConversionPreset,
+  options: ConversionOptions
+): Promise<SelectionEstimate> => {
+  cancelEstimate() // A new estimate replaces the running one
+  const estimateId = currentEstimate
+  const allFiles: EstimateFile[] = await Promise.all(
+    collectFiles(explorer).map(async (item) => ({
+      item,
+      bytes: item.sizeBytes ?? (await fs.stat(item.path)).size,
+      units: costUnits(item)
+    }))
+  )
+
+  const estimate: SelectionEstimate = {
+    files: allFiles.length,
+    inputBytes: allFiles.reduce((sum, file) => sum + file.bytes, 0),
+    projectedBytes: 0,
+    projectedEncodeSeconds: 0,
+    sampledFiles: 0
+  }
+
+  const groups = new Map<string, EstimateFile[]>()
+  const duplicates: EstimateFile[] = []
+  for (const file of allFiles) {
+    if (file.item.duplicateOf && !options.inPlace.enabled) {
+      duplicates.push(file)
+      continue
+    }
+    if (skipReason(file.item, file.bytes, options.skipPolicy)) {
+      estimate.projectedBytes += options.skipPolicy.action === 'copy' ? file.bytes : 0
+      continue
+    }
+    groups.set(groupKey(file), [...(groups.get(groupKey(file)) ?? []), file])
+  }
+
+  const byBytes = [...groups.values()].sort(
+    (a, b) => b.reduce((sum, f) => sum + f.bytes, 0) - a.reduce((sum, f) => sum + f.bytes, 0)
+  )
+  const samples = new Map<EstimateFile[], Sample>()
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mediamagic-estimate-'))
+  try {
+    for (const group of byBytes.slice(0, MAX_SAMPLED_GROUPS)) {
+      if (estimateId !== currentEstimate) throw new Error('The estimate was cancelled')
+      const median = [...group].sort((a, b) => a.bytes - b.bytes)[Math.floor(group.length / 2)]
+      try {
+        samples.set(group, await sampleFile(median, preset, options, tempDir, estimateId))
+        estimate.sampledFiles++
+      } catch (err) {
+        // An unreadable file shouldn't sink the estimate, the group borrows its type's numbers instead
+        console.warn(`Could not sample ${median.item.path}:`, (err as Error).message)
+      }
+    }
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true })
+  }
+
+  const keepRatio = options.sizeGuard.enabled
+    ? 1 - options.sizeGuard.minSavingsPercent / 100
+    : Infinity
+  const { videoRate } = options
+  for (const group of byBytes) {
+    const type = group[0].item.ext
+    const sample =
+      samples.get(group) ??
+      averageSample([...samples].filter(([g]) => g[0].item.ext === type).map(([, s]) => s))
+    for (const file of group) {
+      if (!sample) {
+        estimate.projectedBytes += file.bytes // Nothing of this type could be sampled
+        continue
+      }
+      // In target-size mode a video ends up at the target, unless it's smaller already and kept as it is
+      if (file.item.ext === 'video' && videoRate.mode === 'target-size') {
+        estimate.projectedBytes += Math.min(file.bytes, videoRate.targetBytes)
+      } else {
+        estimate.projectedBytes +=
+          sample.sizeRatio >= keepRatio ? file.bytes : file.bytes * sample.sizeRatio
+      }
+      estimate.projectedEncodeSeconds += sample.secondsPerUnit * file.units
+    }
+  }
+
+  // Duplicates aren't encoded. Copies of the converted file take its size again, hard links take nothing
+  if (options.duplicates.action === 'copy') {
+    for (const file of duplicates) {
+      const sample = averageSample(
+        [...samples].filter(([g]) => g[0].item.ext === file.item.ext).map(([, s]) => s)
+      )
+      estimate.projectedBytes += file.bytes * (sample?.sizeRatio ?? 1)
+    }
+  }
+
+  return estimate
+}
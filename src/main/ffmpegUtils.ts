@@ -3,9 +3,47 @@ import path from 'path'
 import ffmpeg from 'fluent-ffmpeg'
 import fs from 'fs/promises'
 import os from 'os'
-import { DirItem, ConversionQueue } from '../types'
-import { sendToRenderer, logToRenderer } from './index'
-import { handleStopAllFFMPEGProcesses } from './ipc'
+import {
+  BatchOutcome,
+  DirItem,
+  ConversionQueue,
+  ConversionPreset,
+  ConversionOptions,
+  FailedItem,
+  HistoryEntry,
+  VideoRate,
+  ext
+} from '../types'
+import type { IpcMainInvokeEvent } from 'electron'
+import { sendToRenderer, logToRenderer, setBatchMessagesMuted } from './messaging'
+import { startJob, loadJobForResume, updateJobEntry, finishJob, flushJob } from './jobManifest'
+import { startHistoryRun, recordHistoryEntry, recordEncodeSeconds, finishHistoryRun } from './history'
+import { classifyFailure, shouldRetry, stderrTail } from './errorPolicy'
+import { resolveOptions } from './options'
+import { toSeconds } from './fileUtils'
+import { skipReason } from './skipPolicy'
+import { videoBitrateFor, videoStreamOptions } from './streamMapping'
+import { renderOutputName, resolveCollision } from './outputNaming'
+import { openJournal, closeJournal, replaceOriginal, tempOutputPath } from './inPlace'
+import {
+  getContainer,
+  audioEncoderOptions,
+  imageEncoderOptions,
+  loudnessMeasureFilter,
+  loudnessNormalizeFilter,
+  parseLoudnessMeasurement,
+  LoudnessMeasurement
+} from './encoderOptions'
+import { videoMetadataOptions, audioMetadataOptions, finishConvertedMetadata, finishCopiedMetadata } from './metadata'
+import {
+  startBatchProgress,
+  updateItemProgress,
+  completeItem,
+  removeItem,
+  pauseBatchProgress,
+  resumeBatchProgress,
+  progressPercent
+} from './batchProgress'
 
 // Add at the top with your other imports
 const NULL_DEVICE = os.platform() === 'win32' ? 'NUL' : '/dev/null'
@@ -26,55 +64,298 @@ const calculateThreads = (mediaType: 'audio' | 'video' | 'image'): number => {
 
 // More concurrent processes
 const MAX_CONCURRENT = Math.max(2, Math.min(8, Math.floor(os.cpus().length / 2.5)));
+const RETRY_DELAY_MS = 5000 // Gives a full disk or a busy encoder a moment before the next attempt
 let parentOutputDir: string
 let activeConversions = 0;
 const conversionQueue: ConversionQueue[] = []
+let batchStopped = false
+let batchPaused = false
+let batchGeneration = 0 // Bumped for every batch, a worker still waiting to retry for a stopped batch can tell it's stale
+// Every ffmpeg command this app spawned and hasn't finished yet, keyed by input path, so single items can be cancelled
+// and Stop only kills our own children - never other ffmpeg jobs on the machine
+const activeCommands = new Map<string, ReturnType<typeof ffmpeg>>()
+const runningJobs = new Set<Promise<void>>()
+const cancelledPaths = new Set<string>()
+let batchOptions: ConversionOptions = resolveOptions()
+let batchFailures: FailedItem[] = [] // Reported with CONVERSION_COMPLETE
+// Files this batch wrote into the output folder - a stopped batch removes only these, the folder may hold
+// the outputs of earlier runs
+const writtenOutputs = new Set<string>()
+const claimedOutputs = new Set<string>() // Output files of this batch, so two inputs can't end up in one output
+const skippedInputs = new Map<string, string>() // Input path to why it isn't converted, see BatchOutcome
+
+// Only one batch runs at a time, they share the queue and the workers. convertExplorer and resumeJob wait for
+// the running batch before starting theirs. Resolves with the batch's outcome, null if it was stopped
+let batchRunning = false
+let batchBackground = false
+let batchFinished: Promise<BatchOutcome | null> = Promise.resolve(null)
+let finishBatch: (outcome: BatchOutcome | null) => void = () => {}
+let waitingStops = 0 // Bumped by Stop while the user's batch still waits for a watch-folder batch
+
+export const waitForBatch = (): Promise<BatchOutcome | null> => batchFinished
+
+// Nothing is awaited between seeing the slot free and taking it, so two waiters can't both start a batch.
+// False when the user pressed Stop while their batch was waiting
+const claimBatch = async (background: boolean): Promise<boolean> => {
+  const stops = waitingStops
+  while (batchRunning) await batchFinished
+  if (!background && stops !== waitingStops) return false
+  batchRunning = true
+  batchBackground = background
+  batchFinished = new Promise((resolve) => {
+    finishBatch = resolve
+  })
+  return true
+}
+
+// Stop, pause and cancelling come from the file view - a watch-folder batch running out of sight isn't theirs
+export const isForegroundBatch = (): boolean => batchRunning && !batchBackground
+
+// Stop pressed while the user's batch waits for a watch-folder batch - it's dropped instead of starting later
+export const abandonWaitingBatch = (): void => {
+  waitingStops++
+}
+
+const endBatch = (failures: FailedItem[] | null): void => {
+  batchRunning = false
+  finishHistoryRun(failures ? 'completed' : 'stopped')
+  finishBatch(failures && { failures, skipped: Object.fromEntries(skippedInputs) })
+}
+
+export const convertExplorer = async (
+  explorer: DirItem[],
+  outputDir: string,
+  preset: ConversionPreset,
+  options: ConversionOptions = resolveOptions(),
+  background = false // Watch-folder batches don't report to the file view, see setBatchMessagesMuted
+): Promise<void> => {
+  if (!(await claimBatch(background))) return;
+  resetBatchState(outputDir, options, background);
+  startHistoryRun({ source: background ? 'watch' : 'manual', outputDir, presetName: preset.name });
+
+  // In-place mode: outputDir is the run folder that holds the journal and backups (see inPlace.ts),
+  // the outputs themselves go next to their sources
+  const { naming } = options;
+  const inPlace = options.inPlace.enabled;
+  const date = new Date().toISOString().slice(0, 10);
+  const duplicates: { dir: DirItem; relDirs: string[] }[] = []; // Handled once the copies they duplicate are queued
 
-export const convertExplorer = async (explorer: DirItem[], outputDir: string): Promise<void> => {
-  parentOutputDir = outputDir;
-  await fs.mkdir(outputDir, { recursive: true });
-  
   // First pass: build queue without starting conversions
-  const buildQueue = async (items: DirItem[], currentDir: string): Promise<void> => {
+  const buildQueue = async (items: DirItem[], relDirs: string[]): Promise<void> => {
     for (const dir of items) {
       if (dir.type === 'folder') {
-        const childDir = path.join(currentDir, dir.name);
-        await fs.mkdir(childDir, { recursive: true });
         if (dir.children) {
-          await buildQueue(dir.children, childDir);
+          await buildQueue(dir.children, [...relDirs, dir.name]);
         }
+      } else if (dir.duplicateOf && !inPlace) {
+        duplicates.push({ dir, relDirs });
       } else {
-        const fileOutputDir = path.join(currentDir, dir.name);
+        const inputBytes = (await fs.stat(dir.path)).size;
+        const outputName = renderOutputName(naming.template, { item: dir, relDirs, presetName: preset.name, date });
+        const baseOutputPath = inPlace
+          ? path.join(path.dirname(dir.path), outputName)
+          : path.join(outputDir, ...(naming.flatten ? [] : relDirs), outputName);
+
+        // Already efficient files are copied as-is or left out, depending on the skip policy
+        const reason = exceedsTarget(dir.ext, inputBytes, options.videoRate) ? null : skipReason(dir, inputBytes, options.skipPolicy);
+        if (reason) {
+          let copied = !inPlace && options.skipPolicy.action === 'copy'; // In place, the original simply stays
+          let copyFile: string | undefined;
+          if (copied) {
+            const extension = path.extname(dir.path);
+            const copyPath = await resolveCollision(baseOutputPath, extension, naming.collision, claimedOutputs);
+            copied = copyPath !== null;
+            if (copyPath) {
+              copyFile = `${copyPath}${extension}`;
+              claimedOutputs.add(copyFile);
+              await fs.mkdir(path.dirname(copyPath), { recursive: true });
+              writtenOutputs.add(copyFile);
+              await fs.copyFile(dir.path, copyFile);
+              await finishCopiedMetadata(dir.path, copyFile, preset.stripPrivateMetadata);
+            }
+          }
+          console.log(`Skipping ${dir.path}: ${reason}`);
+          recordHistoryEntry({
+            inputPath: dir.path,
+            outputFile: copyFile,
+            type: dir.ext,
+            status: 'skipped',
+            inputBytes,
+            outputBytes: copyFile ? inputBytes : undefined,
+            durationSeconds: toSeconds(dir.duration),
+            reason
+          });
+          skippedInputs.set(dir.path, reason);
+          sendToRenderer('ITEM_SKIPPED', dir.path, reason, copied);
+          continue;
+        }
+
+        // The collision policy is checked against the file ffmpeg will actually write
+        const imageTraits = dir.ext === 'image' ? { alpha: dir.media?.alpha, animated: dir.media?.animated } : undefined;
+        const container = `.${getContainer(dir.ext, preset, imageTraits)}`;
+        const outputPath = await resolveCollision(baseOutputPath, container, naming.collision, claimedOutputs, inPlace ? dir.path : undefined);
+        if (!outputPath) {
+          console.log(`Skipping ${dir.path}: output already exists`);
+          recordHistoryEntry({ inputPath: dir.path, type: dir.ext, status: 'skipped', inputBytes, reason: 'Output already exists' });
+          skippedInputs.set(dir.path, 'Output already exists');
+          sendToRenderer('ITEM_SKIPPED', dir.path, 'Output already exists', false);
+          continue;
+        }
+        claimedOutputs.add(`${outputPath}${container}`);
+        await fs.mkdir(path.dirname(outputPath), { recursive: true });
+
         // Add to queue instead of converting immediately
         conversionQueue.push({
           type: dir.ext,
           inputPath: dir.path,
-          outputPath: fileOutputDir
+          outputPath: inPlace ? tempOutputPath(outputPath) : outputPath,
+          finalPath: inPlace ? outputPath : undefined,
+          preset,
+          durationSeconds: toSeconds(dir.duration),
+          pixels: dir.ext === 'image' && dir.media?.width && dir.media?.height ? dir.media.width * dir.media.height : undefined,
+          inputBytes,
+          tracks: dir.ext === 'video' ? dir.media?.tracks : undefined,
+          trackActions: dir.trackActions,
+          imageTraits
         });
       }
     }
   };
   
-  await buildQueue(explorer, outputDir);
-  
-  // Start processing with controlled concurrency
-  for (let i = 0; i < MAX_CONCURRENT; i++) { // Run loop only set amount of times to assure a constant amount of workers
+  // Duplicates get the output of the copy that's converted. If that one isn't converted after all (skipped,
+  // output exists) they're treated like any other file
+  const queueDuplicates = async (): Promise<void> => {
+    for (const { dir, relDirs } of duplicates) {
+      const original = conversionQueue.find((item) => item.inputPath === dir.duplicateOf);
+      if (!original) {
+        await buildQueue([{ ...dir, duplicateOf: undefined }], relDirs);
+        continue;
+      }
+
+      const reason = `Duplicate of ${path.basename(original.inputPath)}`;
+      if (options.duplicates.action === 'leave-out') {
+        recordHistoryEntry({ inputPath: dir.path, type: dir.ext, status: 'skipped', inputBytes: dir.sizeBytes, reason });
+        skippedInputs.set(dir.path, reason);
+        sendToRenderer('ITEM_SKIPPED', dir.path, reason, false);
+        continue;
+      }
+      const outputName = renderOutputName(naming.template, { item: dir, relDirs, presetName: preset.name, date });
+      const baseOutputPath = path.join(outputDir, ...(naming.flatten ? [] : relDirs), outputName);
+      const container = path.extname(getOutputFile(original));
+      const outputPath = await resolveCollision(baseOutputPath, container, naming.collision, claimedOutputs);
+      if (!outputPath) {
+        skippedInputs.set(dir.path, 'Output already exists');
+        sendToRenderer('ITEM_SKIPPED', dir.path, 'Output already exists', false);
+        continue;
+      }
+      claimedOutputs.add(`${outputPath}${container}`);
+      await fs.mkdir(path.dirname(outputPath), { recursive: true });
+      original.duplicates = [...(original.duplicates ?? []), { inputPath: dir.path, outputPath }];
+      skippedInputs.set(dir.path, reason);
+      sendToRenderer('ITEM_DUPLICATE', dir.path, original.inputPath, options.duplicates.action);
+    }
+  };
+
+  try {
+    await fs.mkdir(outputDir, { recursive: true });
+    if (inPlace) await openJournal(outputDir, options.inPlace.originals);
+    await buildQueue(explorer, []);
+    await queueDuplicates();
+    // Persist the queue before anything runs, so even the first file is resumable
+    await startJob(outputDir, preset, options, conversionQueue, getOutputFile);
+  } catch (err) {
+    conversionQueue.length = 0;
+    endBatch(null); // The batch never started, e.g. the 'fail' collision policy found an existing output
+    throw err;
+  }
+  startBatchProgress(conversionQueue);
+  startWorkers();
+};
+
+// Continues a batch from the manifest an earlier run left behind (see jobManifest.ts).
+// Returns the input paths that are converted again so the UI can show them
+export const resumeJob = async (manifestPath: string): Promise<string[]> => {
+  if (!(await claimBatch(false))) return [];
+  try {
+    const job = await loadJobForResume(manifestPath);
+    const options = resolveOptions(job.options);
+    resetBatchState(job.outputDir, options);
+    startHistoryRun({ source: 'resume', outputDir: job.outputDir, presetName: job.preset.name });
+    if (options.inPlace.enabled) await openJournal(job.outputDir, options.inPlace.originals);
+
+    for (const entry of job.entries) {
+      if (entry.outputFile) claimedOutputs.add(entry.outputFile);
+      if (entry.status !== 'pending') continue;
+      await fs.mkdir(path.dirname(entry.outputPath), { recursive: true });
+      // eslint-disable-next-line @typescript-eslint/no-unused-vars
+      const { status: _status, outputFile: _outputFile, outputSize: _outputSize, ...item } = entry;
+      const queued = { ...item, preset: job.preset };
+      claimedOutputs.add(getOutputFile(queued));
+      conversionQueue.push(queued);
+    }
+  } catch (err) {
+    conversionQueue.length = 0;
+    endBatch(null);
+    throw err;
+  }
+
+  console.log(`Resuming job in ${parentOutputDir}, ${conversionQueue.length} file(s) left`);
+  const remaining = conversionQueue.map((item) => item.inputPath);
+  startBatchProgress(conversionQueue);
+  startWorkers();
+  return remaining;
+};
+
+// The batch slot is already claimed (claimBatch)
+const resetBatchState = (outputDir: string, options: ConversionOptions, background = false): void => {
+  setBatchMessagesMuted(background);
+  parentOutputDir = outputDir;
+  batchOptions = options;
+  batchFailures = [];
+  writtenOutputs.clear();
+  claimedOutputs.clear();
+  skippedInputs.clear();
+  batchStopped = false;
+  batchPaused = false;
+  cancelledPaths.clear();
+  batchGeneration++;
+};
+
+// Start processing with controlled concurrency
+const startWorkers = (): void => {
+  // At least one worker runs even for an empty queue (everything skipped) so the batch still completes,
+  // but never more than there are items - each idle worker would report completion on its own
+  const workers = Math.max(1, Math.min(MAX_CONCURRENT, conversionQueue.length));
+  for (let i = 0; i < workers; i++) { // Run loop only set amount of times to assure a constant amount of workers
     processNextInQueue();
   }
 };
 
 // New function to process queue items
 const processNextInQueue = async (): Promise<void> => {
+  // A stopped batch neither dispatches nor reports completion - CONVERSION_STOPPED was sent instead
+  if (batchStopped) {
+    return;
+  }
+
   // STEP 1: Check if queue is empty
   if (conversionQueue.length === 0) {
     // No more items to process
     if (activeConversions === 0) {
       // Everything is done, notify completion
       console.log('Conversion is complete!')
-      sendToRenderer('CONVERSION_COMPLETE')
+      await finishJob()
+      await closeJournal()
+      sendToRenderer('CONVERSION_COMPLETE', batchFailures)
+      endBatch(batchFailures)
     }
     return;
   }
+
+  // While paused workers give up their slot instead of picking the next item - resumeConversion refills them
+  if (batchPaused) {
+    return;
+  }
   
   // STEP 2: Check if we're at capacity - for end cases
   if (activeConversions >= MAX_CONCURRENT) {
@@ -90,24 +371,23 @@ const processNextInQueue = async (): Promise<void> => {
   }
 
   activeConversions++;
+  const startedAt = Date.now();
+  const generation = batchGeneration;
   
   try {
     // STEP 4: Convert the file
-    switch (item.type) {
-      case 'audio':
-        await convertAudio(item.inputPath, item.outputPath);
-        break;
-      case 'video':
-        await convertVideo(item.inputPath, item.outputPath);
-        break;
-      case 'image':
-        await convertImage(item.inputPath, item.outputPath);
-        break;
-    }
+    updateJobEntry(item.inputPath, 'running');
+    if (!item.finalPath) writtenOutputs.add(getOutputFile(item)); // In place, Stop leaves the originals alone anyway
+    await convertWithRetries(item, generation);
+    if (generation !== batchGeneration) return; // Stopped while waiting to retry, and a new batch took over since
+    const finalFile = await recordJobEntry(item);
+    if (finalFile) await placeDuplicates(item, finalFile);
   } catch (err) {
-    // There is no reject for conversion functions since errors are handled by ffmpeg
+    // Only reached once the error policy gave up on the file
+    if (!batchStopped) await handleItemFailure(item, err as FailedItem);
   } finally {
     // STEP 5: Update counters
+    if (generation === batchGeneration) recordEncodeSeconds(item.inputPath, (Date.now() - startedAt) / 1000);
     activeConversions--;
     
     // STEP 6: Process next item
@@ -115,158 +395,618 @@ const processNextInQueue = async (): Promise<void> => {
   }
 };
 
-const convertAudio = async (inputPath: string, outputPath: string): Promise<void> => {
+// Runs the conversion, retrying as the error policy allows. Rejects with a FailedItem once it gives up
+const convertWithRetries = async (item: ConversionQueue, generation: number): Promise<void> => {
+  const { errorPolicy } = batchOptions;
+
+  for (let attempt = 1; ; attempt++) {
+    const job = convertItem(attempt > 1 ? withFallbackEncoder(item) : item);
+    runningJobs.add(job);
+    try {
+      await job;
+      return;
+    } catch (err) {
+      const error = err as Error & { stderr?: string };
+      const stderr = stderrTail(error.stderr);
+      const failure: FailedItem = {
+        inputPath: item.inputPath,
+        kind: classifyFailure(error.message, stderr),
+        message: error.message,
+        stderr,
+        attempts: attempt
+      };
+      if (batchStopped || !shouldRetry(failure, errorPolicy)) throw failure;
+
+      console.log(`[RETRY] ${path.basename(item.inputPath)} failed (${failure.kind}), attempt ${attempt + 1} of ${errorPolicy.maxRetries + 1}`);
+      sendToRenderer('LIVE_PROGRESS', item.inputPath, 0);
+      updateItemProgress(item.inputPath, 0);
+    } finally {
+      runningJobs.delete(job);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+    // Stopped or cancelled while waiting - there's no command to kill, so just don't start the next attempt.
+    // Stop doesn't wait for the sleep, by now the stopped batch may have been replaced by a new one
+    if (batchStopped || generation !== batchGeneration) return;
+    if (cancelledPaths.has(item.inputPath)) {
+      sendToRenderer('CONVERSION_CANCELLED', item.inputPath);
+      return;
+    }
+  }
+};
+
+// Retries swap the video/image encoder for the fallback one, if the policy names one
+const withFallbackEncoder = (item: ConversionQueue): ConversionQueue => {
+  const { fallbackEncoder } = batchOptions.errorPolicy;
+  if (!fallbackEncoder) return item;
+  return {
+    ...item,
+    preset: {
+      ...item.preset,
+      video: { ...item.preset.video, codec: fallbackEncoder },
+      image: { ...item.preset.image, codec: fallbackEncoder }
+    }
+  };
+};
+
+const handleItemFailure = async (item: ConversionQueue, failure: FailedItem): Promise<void> => {
+  console.error(`[FAILED] ${path.basename(item.inputPath)} (${failure.kind}):`, failure.message);
+  batchFailures.push(failure);
+  recordHistoryEntry({ ...historyEntryOf(item), status: 'failed', reason: failure.message });
+  completeItem(item.inputPath);
+  updateJobEntry(item.inputPath, 'failed');
+  sendToRenderer('ITEM_FAILED', item.inputPath, failure);
+
+  if (!batchOptions.errorPolicy.continueOnError) {
+    sendToRenderer('CONVERSION_ERROR', item.inputPath, failure.message); // Before stopping, so listeners know why the batch stopped
+    // In place, the output dir is the run folder - its backups and journal must survive a failed batch
+    await handleStopAllFFMPEGProcesses(batchOptions.inPlace.enabled ? undefined : parentOutputDir);
+  }
+};
+
+// Items killed by Stop or by quitting the app stay 'running' in the manifest, so a resume redoes them.
+// Returns the file the input ended up as, nothing for cancelled items
+const recordJobEntry = async (item: ConversionQueue): Promise<string | undefined> => {
+  if (batchStopped) return;
+  if (cancelledPaths.has(item.inputPath)) {
+    removeItem(item.inputPath);
+    recordHistoryEntry({ ...historyEntryOf(item), status: 'cancelled' });
+    updateJobEntry(item.inputPath, 'cancelled');
+    return;
+  }
+  completeItem(item.inputPath);
+  const outputFile = getOutputFile(item);
+  const { size } = await fs.stat(outputFile);
+  const kept = await keepOriginalIfNotSmaller(item, outputFile, size);
+  if (kept !== false) return kept;
+  if (item.type === 'video' && batchOptions.videoRate.mode === 'target-size') {
+    sendToRenderer('ITEM_TARGET_SIZE', item.inputPath, size, batchOptions.videoRate.targetBytes);
+  }
+
+  if (item.finalPath) {
+    const finalFile = withContainer(item.finalPath, getContainer(item.type, item.preset, item.imageTraits));
+    try {
+      await replaceOriginal(item, outputFile, finalFile);
+    } catch (err) {
+      // The output only goes if the original is back where it was - otherwise it may be the only good copy left
+      const originalInPlace = await fs.access(item.inputPath).then(() => true, () => false);
+      if (originalInPlace) await fs.rm(outputFile, { force: true });
+      const failure: FailedItem = { inputPath: item.inputPath, kind: 'unknown', message: (err as Error).message, stderr: '', attempts: 1 };
+      throw failure;
+    }
+    recordHistoryEntry({ ...historyEntryOf(item), status: 'converted', outputFile: finalFile, outputBytes: size });
+    updateJobEntry(item.inputPath, 'done', size, finalFile);
+    return finalFile;
+  }
+  recordHistoryEntry({ ...historyEntryOf(item), status: 'converted', outputFile, outputBytes: size });
+  updateJobEntry(item.inputPath, 'done', size, outputFile);
+  return outputFile;
+};
+
+// Identical inputs get the converted file under their own output name - hard-linked, or copied where
+// linking isn't possible. A failed original leaves its duplicates without output, like it leaves itself
+const placeDuplicates = async (item: ConversionQueue, file: string): Promise<void> => {
+  const { size } = await fs.stat(file);
+  for (const duplicate of item.duplicates ?? []) {
+    const target = `${duplicate.outputPath}${path.extname(file)}`;
+    try {
+      await fs.rm(target, { force: true }); // Only there with the 'overwrite' collision policy
+      let linked = false;
+      if (batchOptions.duplicates.action === 'hardlink') {
+        linked = await fs.link(file, target).then(
+          () => true,
+          (err) => {
+            console.warn(`Could not hard-link ${target}, copying instead:`, err.message);
+            return false;
+          }
+        );
+      }
+      writtenOutputs.add(target);
+      if (!linked) await fs.copyFile(file, target);
+      // A hard link takes no space of its own
+      recordHistoryEntry({ inputPath: duplicate.inputPath, outputFile: target, type: item.type, status: 'skipped', inputBytes: item.inputBytes, outputBytes: linked ? 0 : size, reason: `Duplicate of ${item.inputPath}, ${linked ? 'hard-linked' : 'copied'}` });
+    } catch (err) {
+      // The original is converted fine, this only costs the duplicate its output
+      console.error(`Could not place duplicate ${target}:`, err);
+      recordHistoryEntry({ inputPath: duplicate.inputPath, type: item.type, status: 'failed', inputBytes: item.inputBytes, reason: (err as Error).message });
+    }
+  }
+};
+
+// What the history knows about a queued file before it's converted
+const historyEntryOf = (item: ConversionQueue): Omit<HistoryEntry, 'status'> => ({
+  inputPath: item.inputPath,
+  type: item.type,
+  inputBytes: item.inputBytes,
+  durationSeconds: item.durationSeconds
+});
+
+// A video over the target size has to be converted, no matter what the skip policy or the size guard say
+const exceedsTarget = (type: ext, inputBytes: number, videoRate: VideoRate): boolean =>
+  type === 'video' && videoRate.mode === 'target-size' && inputBytes > videoRate.targetBytes;
+
+// Size guard - a PNG screenshot or a low bitrate MP3 can come out bigger than it went in. Then the output
+// is replaced by a copy of the input, with the input's extension, and the entry is recorded as 'kept-original'.
+// The copy's name goes through the collision policy like any output. Returns the file the input ended up as
+// (undefined when the policy skipped the copy), false if the conversion is kept
+const keepOriginalIfNotSmaller = async (item: ConversionQueue, outputFile: string, outputSize: number): Promise<string | undefined | false> => {
+  const { sizeGuard } = batchOptions;
+  if (!sizeGuard.enabled) return false;
+
+  const inputSize = item.inputBytes ?? (await fs.stat(item.inputPath)).size;
+  if (exceedsTarget(item.type, inputSize, batchOptions.videoRate)) return false;
+  const savingsPercent = inputSize > 0 ? ((inputSize - outputSize) / inputSize) * 100 : 0;
+  if (savingsPercent >= sizeGuard.minSavingsPercent) return false;
+
+  // The output may have the same name as the copy (e.g. mp4 to mp4), so it goes first and gives up its claim
+  await fs.rm(outputFile, { force: true });
+  claimedOutputs.delete(outputFile);
+  if (item.finalPath) {
+    // In place the original is already where it belongs
+    console.log(`Left original ${item.inputPath} in place, conversion saved ${savingsPercent.toFixed(1)}%`);
+    recordHistoryEntry({ ...historyEntryOf(item), status: 'kept-original', outputFile: item.inputPath, outputBytes: inputSize, reason: keptReason(savingsPercent) });
+    updateJobEntry(item.inputPath, 'kept-original', inputSize, item.inputPath);
+    skippedInputs.set(item.inputPath, keptReason(savingsPercent));
+    sendToRenderer('ITEM_KEPT_ORIGINAL', item.inputPath, inputSize, outputSize);
+    return item.inputPath;
+  }
+
+  const extension = path.extname(item.inputPath);
+  let copyPath: string | null;
+  try {
+    copyPath = await resolveCollision(item.outputPath, extension, batchOptions.naming.collision, claimedOutputs);
+  } catch (err) {
+    const failure: FailedItem = { inputPath: item.inputPath, kind: 'unknown', message: (err as Error).message, stderr: '', attempts: 1 };
+    throw failure;
+  }
+  const copyFile = copyPath ? `${copyPath}${extension}` : undefined;
+  if (copyFile) {
+    claimedOutputs.add(copyFile);
+    writtenOutputs.add(copyFile);
+    await fs.copyFile(item.inputPath, copyFile);
+    await finishCopiedMetadata(item.inputPath, copyFile, item.preset.stripPrivateMetadata);
+  }
+  const reason = copyFile ? keptReason(savingsPercent) : `${keptReason(savingsPercent)}, copy skipped since the output already exists`;
+  console.log(`Kept original ${item.inputPath}: ${reason}`);
+  recordHistoryEntry({ ...historyEntryOf(item), status: 'kept-original', outputFile: copyFile, outputBytes: copyFile ? inputSize : undefined, reason });
+  updateJobEntry(item.inputPath, 'kept-original', inputSize, copyFile);
+  skippedInputs.set(item.inputPath, reason);
+  sendToRenderer('ITEM_KEPT_ORIGINAL', item.inputPath, inputSize, outputSize);
+  return copyFile;
+};
+
+const keptReason = (savingsPercent: number): string => `Converting saved only ${savingsPercent.toFixed(1)}%`;
+
+// The file ffmpeg actually writes - outputPath has no extension of its own
+const getOutputFile = (item: ConversionQueue): string => withContainer(item.outputPath, getContainer(item.type, item.preset, item.imageTraits));
+
+const convertItem = async (item: ConversionQueue): Promise<void> => {
+  switch (item.type) {
+    case 'audio':
+      await convertAudio(item);
+      break;
+    case 'video':
+      await convertVideo(item);
+      break;
+    case 'image':
+      await convertImage(item);
+      break;
+  }
+  // A cancelled or stopped item has no output left to carry metadata over to
+  if (cancelledPaths.has(item.inputPath) || batchStopped) return;
+  await finishConvertedMetadata(item.inputPath, getOutputFile(item), item.type, item.preset.stripPrivateMetadata);
+};
+
+// Registers the command currently running for inputPath so cancelItem and Stop can kill it
+const trackCommand = (inputPath: string, command: ReturnType<typeof ffmpeg>): void => {
+  activeCommands.set(inputPath, command)
+  // A cancel or pause that arrives before ffmpeg actually spawned has nothing to signal yet - apply it as soon as it starts.
+  // This also covers a second pass starting while the batch is paused
+  command.on('start', () => {
+    if (cancelledPaths.has(inputPath)) {
+      command.kill('SIGKILL')
+    } else if (batchPaused) {
+      suspendCommand(command, 'SIGSTOP')
+    }
+  })
+}
+
+// Freezes/thaws a running ffmpeg child. Windows has no SIGSTOP/SIGCONT, so there a pause only holds back
+// new items while the running ones finish
+const suspendCommand = (command: ReturnType<typeof ffmpeg>, signal: 'SIGSTOP' | 'SIGCONT'): void => {
+  if (process.platform === 'win32') return
+  command.kill(signal)
+}
+
+export const pauseConversion = (): void => {
+  if (batchPaused || batchStopped) return
+  batchPaused = true
+  for (const command of activeCommands.values()) {
+    suspendCommand(command, 'SIGSTOP')
+  }
+  pauseBatchProgress()
+  console.log('Conversion paused')
+  sendToRenderer('CONVERSION_PAUSED')
+}
+
+export const resumeConversion = (): void => {
+  if (!batchPaused) return
+  batchPaused = false
+  for (const command of activeCommands.values()) {
+    suspendCommand(command, 'SIGCONT')
+  }
+  resumeBatchProgress()
+  console.log('Conversion resumed')
+  sendToRenderer('CONVERSION_RESUMED')
+
+  // Workers that finished while paused gave up their slot, start new ones for the remaining items
+  const freeSlots = Math.min(MAX_CONCURRENT - activeConversions, conversionQueue.length)
+  for (let i = 0; i < freeSlots; i++) {
+    processNextInQueue()
+  }
+  // Nothing left to run and nothing running - report completion, no worker is around to do it
+  if (conversionQueue.length === 0 && activeConversions === 0) processNextInQueue()
+}
+
+// Two-pass logs are written next to the output instead of ffmpeg's default ffmpeg2pass-0.log in the cwd,
+// that way concurrent items don't overwrite each other's logs and each item can clean up its own
+const passLogPrefix = (outputFile: string): string => `${outputFile}.passlog`
+
+const removePassLogs = async (outputFile: string): Promise<void> => {
+  const prefix = passLogPrefix(outputFile)
+  await Promise.all(
+    [`${prefix}-0.log`, `${prefix}-0.log.mbtree`].map((file) => fs.rm(file, { force: true }))
+  )
+}
+
+// Called when a cancelled item's command exits - removes whatever it left behind
+const finishCancelled = async (inputPath: string, outputFile: string): Promise<void> => {
+  activeCommands.delete(inputPath)
+  await fs.rm(outputFile, { force: true })
+  await removePassLogs(outputFile)
+  console.log(`Cancelled: ${path.basename(inputPath)}`)
+  sendToRenderer('CONVERSION_CANCELLED', inputPath)
+}
+
+// Called when a command fails - a partial output must not be mistaken for a converted file
+const failCommand = async (inputPath: string, outputFile: string): Promise<void> => {
+  activeCommands.delete(inputPath)
+  await fs.rm(outputFile, { force: true })
+  await removePassLogs(outputFile)
+}
+
+// Cancels a single file - a queued one is simply dropped, a running one is killed and its partial output removed
+export const cancelItem = async (inputPath: string): Promise<void> => {
+  const queuedIndex = conversionQueue.findIndex((item) => item.inputPath === inputPath)
+  if (queuedIndex !== -1) {
+    const [item] = conversionQueue.splice(queuedIndex, 1)
+    removeItem(inputPath)
+    recordHistoryEntry({ ...historyEntryOf(item), status: 'cancelled' })
+    updateJobEntry(inputPath, 'cancelled')
+    sendToRenderer('CONVERSION_CANCELLED', inputPath)
+    // The last item of a paused batch whose running items already finished - no worker is left to report
+    // completion, so do it here
+    if (conversionQueue.length === 0 && activeConversions === 0) processNextInQueue()
+    return
+  }
+
+  // Also covers an item waiting for its next retry - convertWithRetries checks cancelledPaths before retrying
+  cancelledPaths.add(inputPath)
+  const command = activeCommands.get(inputPath)
+  if (command) {
+    command.kill('SIGKILL') // The command's error handler sees the path in cancelledPaths and cleans up
+  }
+}
+
+// Reports a file's percent to its row and to the batch progress. offset/scale map one pass onto the
+// file's overall progress, e.g. the second of two passes covers 50-100%
+const reportProgress = (
+  item: ConversionQueue,
+  progress: { timemark?: string; percent?: number },
+  offset = 0,
+  scale = 1
+): void => {
+  const percent = progressPercent(progress, item.durationSeconds)
+  if (percent === null) {
+    console.log('progress percent is not a number')
+    return
+  }
+  const overall = offset + percent * scale
+  logToRenderer(`[${item.type?.toUpperCase()}] ${path.basename(item.inputPath)}: ${overall.toFixed(1)}%`)
+  sendToRenderer('LIVE_PROGRESS', item.inputPath, overall)
+  updateItemProgress(item.inputPath, overall)
+}
+
+// Swaps the original extension with the preset's container
+const withContainer = (outputPath: string, container: string): string => `${outputPath}.${container}`
+
+
+const convertAudio = async (item: ConversionQueue): Promise<void> => {
+  const { inputPath, outputPath } = item
+  const settings = item.preset.audio
+  const container = getContainer('audio', item.preset)
+
+  const audioOutputPath = withContainer(outputPath, container)
+
   return new Promise((resolve, reject) => {
-    ffmpeg(inputPath)
-      .audioCodec('libmp3lame')
-      .audioBitrate('64k')
-      .audioChannels(1)
-      .audioFrequency(44100)
-      .outputOptions([`-threads ${calculateThreads('audio')}`, '-q:a 0'])
-      .output(outputPath.replace(/\.[^/.]+$/, '.mp3'))
-      .on('start', () => {
-        console.log(`[AUDIO] Starting: ${path.basename(inputPath)}`)
-        logToRenderer(`[AUDIO] Starting: ${path.basename(inputPath)}`)
-      })
-      .on('progress', (progress) => {
-        if (typeof progress.percent === "number" && !isNaN(progress.percent)) {
-          logToRenderer(`[AUDIO] ${path.basename(inputPath)}: ${progress.percent}%`)
-          sendToRenderer('LIVE_PROGRESS', inputPath, progress.percent)
-        } else {
-          console.log('progress percent is not a number')
+    const onStart = (): void => {
+      console.log(`[AUDIO] Starting: ${path.basename(inputPath)}`)
+      logToRenderer(`[AUDIO] Starting: ${path.basename(inputPath)}`)
+    }
+
+    const onError = async (err: Error, _stdout: string, stderr: string): Promise<void> => {
+      if (cancelledPaths.has(inputPath)) {
+        await finishCancelled(inputPath, audioOutputPath)
+        return resolve()
+      }
+      console.error('error occured', err)
+      await failCommand(inputPath, audioOutputPath)
+      reject(Object.assign(err, { stderr })) // The error policy in convertWithRetries decides what happens next
+    }
+
+    const encode = (audioFilter: string | null, progressOffset: number, progressScale: number): ReturnType<typeof ffmpeg> =>
+      ffmpeg(inputPath)
+        .outputOptions([
+          ...audioEncoderOptions(settings), // See encoderOptions.ts
+          ...(audioFilter ? ['-af', audioFilter] : []),
+          `-threads ${calculateThreads('audio')}`,
+          ...audioMetadataOptions(container)
+        ])
+        .output(audioOutputPath)
+        .on('progress', (progress) => reportProgress(item, progress, progressOffset, progressScale))
+        .on('error', onError)
+        .on('end', () => {
+          activeCommands.delete(inputPath)
+          sendToRenderer('LIVE_PROGRESS', inputPath, 100) // As mentioned above, this is only to update UI and NOT to track total progress
+          resolve()
+        })
+
+    if (settings.loudness === undefined) {
+      const command = encode(null, 0, 1).on('start', onStart)
+      trackCommand(inputPath, command)
+      command.run()
+      return
+    }
+
+    // Loudness normalization measures the whole file first - that pass is the first half of the progress
+    const loudness = settings.loudness
+    const measurePass = ffmpeg(inputPath)
+      .outputOptions(['-vn', '-af', loudnessMeasureFilter(loudness), '-f', 'null'])
+      .output(NULL_DEVICE)
+      .on('start', onStart)
+      .on('progress', (progress) => reportProgress(item, progress, 0, 0.5))
+      .on('error', onError)
+      .on('end', async (_stdout: string, stderr: string) => {
+        if (cancelledPaths.has(inputPath)) {
+          await finishCancelled(inputPath, audioOutputPath)
+          return resolve()
         }
+
+        let measured: LoudnessMeasurement | null
+        try {
+          measured = parseLoudnessMeasurement(stderr ?? '')
+        } catch (err) {
+          await failCommand(inputPath, audioOutputPath)
+          return reject(Object.assign(err as Error, { stderr }))
+        }
+        // Silent files are encoded as they are
+        const command = encode(measured && loudnessNormalizeFilter(loudness, measured), 50, 0.5)
+        trackCommand(inputPath, command)
+        command.run()
       })
-      .on('error', async (err) => {
-        console.error('error occured', err)
-        await handleStopAllFFMPEGProcesses(parentOutputDir)
-        sendToRenderer('CONVERSION_ERROR', inputPath, err.message)
-        reject(err)
-      })
-      .on('end', () => {
-        sendToRenderer('LIVE_PROGRESS', inputPath, 100) // As mentioned above, this is only to update UI and NOT to track total progress
-        resolve()
-      })
-      .run()
+
+    trackCommand(inputPath, measurePass)
+    measurePass.run()
   })
 }
 
-const convertVideo = async (inputPath: string, outputPath: string): Promise<void> => {
+const convertVideo = async (item: ConversionQueue): Promise<void> => {
+  const { inputPath, outputPath } = item
+  const settings = item.preset.video
+  const videoOutputPath = withContainer(outputPath, settings.container)
+
+  // Only a target size needs two passes - with CRF the first pass has nothing to tell the second one
+  const videoBitrate = videoBitrateFor(batchOptions.videoRate, item.durationSeconds, item.tracks, item.trackActions, settings)
+
   return new Promise((resolve, reject) => {
     const commonOptions = [
-      // Video codec and settings
-      '-c:v', 'libsvtav1',      // AV1 codec 
-      '-crf', '23',             // Maintain quality setting
-      '-b:v', '0',              // Let CRF control bitrate
-      '-preset', '6',           // Keep original preset
-      
-      // Audio settings - keeping these unchanged as requested
-      '-c:a', 'libmp3lame',     // MP3 audio codec
-      '-b:a', '64k',            // Original audio bitrate
-      '-ac', '1',               // Mono audio
+      // Codecs, quality, scaling and the audio/subtitle tracks to keep (see encoderOptions.ts and streamMapping.ts)
+      ...videoStreamOptions(inputPath, item.tracks, item.trackActions, settings, videoBitrate),
 
       // Performance settings
       '-threads', calculateThreads('video').toString(),
-      '-movflags', '+faststart', // Optimize for web playback
-      
-      // Video processing - keeping original scaling
-      '-vf', "scale='min(1920,iw):-2:flags=lanczos'" // Original resolution limit
+      // Optimize for web playback - only mp4/mov containers understand this flag
+      // use_metadata_tags keeps tags mp4 has no standard atom for
+      ...(['mp4', 'mov'].includes(settings.container) ? ['-movflags', '+faststart+use_metadata_tags'] : []),
+
+      // Tags, chapters and orientation (see metadata.ts)
+      ...videoMetadataOptions(item.preset.stripPrivateMetadata)
     ]
-    
-    ffmpeg(inputPath)
-      .outputOptions([...commonOptions, '-pass', '1', '-f', 'null'])
+    const passOptions = (pass: number): string[] => ['-pass', pass.toString(), '-passlogfile', passLogPrefix(videoOutputPath)]
+
+    const onStart = (): void => {
+      console.log(`[VIDEO] Starting: ${path.basename(inputPath)}`)
+      logToRenderer(`[VIDEO] Starting: ${path.basename(inputPath)}`)
+    }
+
+    const onError = async (err: Error, _stdout: string, stderr: string): Promise<void> => {
+      if (cancelledPaths.has(inputPath)) {
+        await finishCancelled(inputPath, videoOutputPath)
+        return resolve()
+      }
+      await failCommand(inputPath, videoOutputPath)
+      reject(Object.assign(err, { stderr })) // The error policy in convertWithRetries decides what happens next
+    }
+
+    // The pass that writes the output - the only one in CRF mode, the second half of a two-pass encode
+    const outputPass = (extraOptions: string[], progressOffset: number, progressScale: number): ReturnType<typeof ffmpeg> =>
+      ffmpeg(inputPath)
+        .outputOptions([...commonOptions, ...extraOptions])
+        .on('progress', (progress) => reportProgress(item, progress, progressOffset, progressScale))
+        .on('error', onError)
+        .on('end', async () => {
+          activeCommands.delete(inputPath)
+          await removePassLogs(videoOutputPath)
+          sendToRenderer('LIVE_PROGRESS', inputPath, 100)
+          resolve()
+        })
+        .output(videoOutputPath)
+
+    if (!videoBitrate) {
+      const singlePass = outputPass([], 0, 1).on('start', onStart)
+      trackCommand(inputPath, singlePass)
+      singlePass.run()
+      return
+    }
+
+    const firstPass = ffmpeg(inputPath)
+      .outputOptions([...commonOptions, ...passOptions(1), '-f', 'null'])
       .output(NULL_DEVICE)
-      .on('start', () => {
-        console.log(`[VIDEO] Starting: ${path.basename(inputPath)}`)
-        logToRenderer(`[VIDEO] Starting: ${path.basename(inputPath)}`)
-      })
-      .on('error', async (err) => {
-        await handleStopAllFFMPEGProcesses(parentOutputDir)
-        sendToRenderer('CONVERSION_ERROR', inputPath, err.message)
-        reject(err)
-      })
+      .on('start', onStart)
+      .on('progress', (progress) => reportProgress(item, progress, 0, 0.5)) // First pass is the first half
+      .on('error', onError)
       // .on('stderr', (stderrLine) => {
       //   console.log(`[VIDEO-STDERR] ${stderrLine}`)
       // })
-      .on('end', () => {
+      .on('end', async () => {
         console.log('[VIDEO] First pass completed')
+        // Cancelled right as the first pass finished - there is no process left to kill, so stop here
+        if (cancelledPaths.has(inputPath)) {
+          await finishCancelled(inputPath, videoOutputPath)
+          return resolve()
+        }
 
-        ffmpeg(inputPath)
-          .outputOptions([...commonOptions, '-pass', '2'])
-          .on('start', () => {})
-          .on('progress', (progress) => {
-            if (typeof progress.percent === "number" && !isNaN(progress.percent)) {
-              logToRenderer(`[VIDEO] ${path.basename(inputPath)}: ${progress.percent}%`)
-              sendToRenderer('LIVE_PROGRESS', inputPath, progress.percent)
-            } else {
-              console.log('progress percent is not a number')
-            }
-          })
-          .on('error', async (err) => {
-            await handleStopAllFFMPEGProcesses(parentOutputDir)
-            sendToRenderer('CONVERSION_ERROR', inputPath, err.message)
-            reject(err)
-          })
-          .on('end', () => {
-            sendToRenderer('LIVE_PROGRESS', inputPath, 100)
-            resolve()
-          })
-          .save(outputPath.replace(/\.[^/.]+$/, '.mp4'))
+        const secondPass = outputPass(passOptions(2), 50, 0.5)
+        trackCommand(inputPath, secondPass)
+        secondPass.run()
       })
-      .run()
+
+    trackCommand(inputPath, firstPass)
+    firstPass.run()
   })
 }
 
-const convertImage = async (inputPath: string, outputPath: string): Promise<void> => {
-  const avifOutputPath = outputPath.replace(/\.[^/.]+$/, '.avif')
+const convertImage = async (item: ConversionQueue): Promise<void> => {
+  const { inputPath, outputPath, imageTraits } = item
+  const settings = item.preset.image
+  const container = getContainer('image', item.preset, imageTraits)
+  const imageOutputPath = withContainer(outputPath, container)
 
   return new Promise((resolve, reject) => {
-    const commonOptions = [
-      // Codec and basic settings
-      '-c:v', 'libsvtav1',      // AV1 codec for images
-      '-crf', '23',             // Quality level - maintaining as requested
-      '-preset', '6',           // Encoding preset - maintaining as requested
-      
-      // Performance settings
-      '-threads', calculateThreads('image').toString(),
-      
-      // Scaling - keeping original resolution handling
-      '-vf', "scale='min(1920,iw):-2:flags=lanczos'",
-      
-      // Output format
-      '-f', 'avif'              // AVIF output format
-    ]
+    // A single pass - stills are one frame, and animations are short enough for crf to do fine without a first pass
+    const command = ffmpeg(inputPath)
+      .outputOptions([
+        // Codec, quality, scaling, alpha and frames (see encoderOptions.ts)
+        ...imageEncoderOptions(settings, imageTraits),
 
-    ffmpeg(inputPath)
-      .outputOptions([...commonOptions, '-pass', '1', '-f', 'null'])
-      .output(NULL_DEVICE)
+        // Performance settings
+        '-threads', calculateThreads('image').toString(),
+
+        // Output format
+        '-f', container
+      ])
+      .output(imageOutputPath)
       .on('start', () => {
         console.log(`[IMAGE] Starting: ${path.basename(inputPath)}`)
         logToRenderer(`[IMAGE] Starting: ${path.basename(inputPath)}`)
       })
-      // .on('stderr', (stderrLine) => {
-      //   console.log(`[IMAGE-STDERR] ${stderrLine}`)
-      // })
-      .on('error', async (err) => {
-        await handleStopAllFFMPEGProcesses(parentOutputDir)
-        sendToRenderer('CONVERSION_ERROR', inputPath, err.message)
-        reject(err)
+      // Only animations have a duration to report progress against
+      .on('progress', (progress) => {
+        if (imageTraits?.animated) reportProgress(item, progress)
+      })
+      .on('error', async (err: Error, _stdout: string, stderr: string) => {
+        if (cancelledPaths.has(inputPath)) {
+          await finishCancelled(inputPath, imageOutputPath)
+          return resolve()
+        }
+        await failCommand(inputPath, imageOutputPath)
+        reject(Object.assign(err, { stderr })) // The error policy in convertWithRetries decides what happens next
       })
       .on('end', () => {
-        console.log('[IMAGE] First pass completed')
-
-        ffmpeg(inputPath)
-          .outputOptions([...commonOptions, '-pass', '2'])
-          .on('error', async (err) => {
-            await handleStopAllFFMPEGProcesses(parentOutputDir)
-            sendToRenderer('CONVERSION_ERROR', inputPath, err.message)
-            reject(err)
-          })
-          .on('end', () => {
-            sendToRenderer('LIVE_PROGRESS', inputPath, 100)
-            resolve()
-          })
-          .save(avifOutputPath)
+        activeCommands.delete(inputPath)
+        sendToRenderer('LIVE_PROGRESS', inputPath, 100)
+        resolve()
       })
-      .run()
+
+    trackCommand(inputPath, command)
+    command.run()
   })
 }
+
+// Deletes the batch's outputs, then the folders that are left empty by that - up to and including outputDir
+const removeWrittenOutputs = async (outputDir: string): Promise<void> => {
+  const folders = new Set<string>()
+  for (const file of writtenOutputs) {
+    await fs.rm(file, { force: true }).catch(() => {})
+    let dir = path.dirname(file)
+    while (dir.startsWith(`${outputDir}${path.sep}`)) {
+      folders.add(dir)
+      dir = path.dirname(dir)
+    }
+    if (dir === outputDir) folders.add(dir)
+  }
+  writtenOutputs.clear()
+  // Deepest first, rmdir refuses folders that still hold something
+  for (const dir of [...folders].sort((a, b) => b.length - a.length)) {
+    await fs.rmdir(dir).catch(() => {})
+  }
+}
+
+export const handleStopAllFFMPEGProcesses = async (
+  _eOrOutputDir?: IpcMainInvokeEvent | string,
+  outputDir?: string
+): Promise<void> => {
+  // Determine which parameter is which
+  let actualOutputDir: string | undefined
+
+  if (typeof _eOrOutputDir === 'string') {
+    // Called directly with just the output directory
+    actualOutputDir = _eOrOutputDir
+  } else {
+    // Called through IPC with event and maybe output dir
+    actualOutputDir = outputDir
+  }
+
+  console.log('Stopping all FFmpeg processes please hold....')
+  // Nothing new gets dispatched from here on
+  batchStopped = true
+  batchPaused = false
+  conversionQueue.length = 0
+
+  // Kill only the ffmpeg children this app spawned, marking them cancelled so their errors aren't reported
+  for (const [inputPath, command] of activeCommands) {
+    cancelledPaths.add(inputPath)
+    command.kill('SIGKILL')
+  }
+  // Wait for the killed jobs to clean up after themselves before touching the output directory
+  await Promise.allSettled([...runningJobs])
+  await flushJob() // What's left of the batch can be resumed
+
+  // Remove what this batch wrote if an output directory is provided
+  if (actualOutputDir) await removeWrittenOutputs(actualOutputDir)
+
+  // Always send notification regardless of errors
+  sendToRenderer('CONVERSION_STOPPED')
+  endBatch(null)
+  return Promise.resolve()
+}
@@ -1,6 +1,20 @@
-import path from 'path'
-import { getVideoDurationInSeconds } from 'get-video-duration'
-import { ext } from '../types'
+import type { IpcMainInvokeEvent } from 'electron'
+import { lstat, readdir, realpath, stat } from 'fs/promises'
+import path, { parse, join } from 'path'
+import bytes from 'bytes'
+import ffmpeg from 'fluent-ffmpeg'
+import {
+  DirItem,
+  ext,
+  HdrFormat,
+  MediaInfo,
+  ScanError,
+  ScannedFile,
+  ScanProgress,
+  ScanResult,
+  TrackInfo
+} from '../types'
+import { formatDuration } from '../format'
 
 // This is another core func - Heavy commenting could greatly improve the dev xp
 export const isValidExt = (filePath: string): ext => {
@@ -33,16 +47,369 @@ export const isValidExt = (filePath: string): ext => {
   return null
 }
 
-export const getDuration = async (filePath: string): Promise<string> => {
+// Extensions that are never media - everything else gets probed, so renamed or extension-less media is found too
+const nonMediaExts = [
+  'txt',
+  'md',
+  'json',
+  'xml',
+  'html',
+  'htm',
+  'css',
+  'js',
+  'ts',
+  'pdf',
+  'doc',
+  'docx',
+  'xls',
+  'xlsx',
+  'ppt',
+  'pptx',
+  'odt',
+  'csv',
+  'zip',
+  'rar',
+  '7z',
+  'tar',
+  'gz',
+  'exe',
+  'dll',
+  'msi',
+  'iso',
+  'db',
+  'ini',
+  'log',
+  'lnk',
+  'url',
+  'srt',
+  'ass',
+  'vtt',
+  'nfo',
+  'torrent',
+  'part'
+]
+
+export const shouldProbe = (filePath: string): boolean => {
+  return !nonMediaExts.includes(path.extname(filePath).toLowerCase().slice(1))
+}
+
+// Cover art in mp3/m4a/flac shows up as a video stream, it doesn't make the file a video
+const isAttachedPic = (stream: ProbeStream): boolean => stream.disposition?.attached_pic === 1
+
+// Classifies a file by what's actually inside it - the extension is only a tie breaker for single frame
+// formats, since ffprobe reports a png and a one-frame video stream the same way
+export const classifyProbe = (probe: ProbeData, filePath: string): ext => {
+  const videoStreams = probe.streams.filter((s) => s.codec_type === 'video' && !isAttachedPic(s))
+  const hasAudio = probe.streams.some((s) => s.codec_type === 'audio')
+  const formatName = probe.format.format_name ?? ''
+  // image2 and the *_pipe demuxers only ever read still images, avif hides in the mp4 demuxer
+  const isImageFormat =
+    /(^|,)(image2|[a-z0-9]+_pipe|gif|apng)(,|$)/.test(formatName) ||
+    ['avif', 'avis'].includes(probe.format.tags?.major_brand ?? '')
+
+  if (videoStreams.length > 0 && (isImageFormat || isValidExt(filePath) === 'image')) return 'image'
+  if (videoStreams.length > 0) return 'video'
+  if (hasAudio) return 'audio'
+  return null
+}
+
+// '30000/1001' to 29.97, undefined for ffprobe's '0/0'
+const parseFrameRate = (rate: string | undefined): number | undefined => {
+  if (!rate) return undefined
+  const [num, den] = rate.split('/').map(Number)
+  if (!num || !den) return undefined
+  return Math.round((num / den) * 1000) / 1000
+}
+
+const detectHdr = (stream: ProbeStream | undefined): HdrFormat | undefined => {
+  if (!stream) return undefined
+  // Side data sections get flattened into the stream by fluent-ffmpeg's parser
+  if (String(stream.side_data_type ?? '').includes('DOVI')) return 'Dolby Vision'
+  if (stream.color_transfer === 'smpte2084') return 'HDR10'
+  if (stream.color_transfer === 'arib-std-b67') return 'HLG'
+  return undefined
+}
+
+// ffprobe prints 'N/A' for anything it couldn't determine, the parser keeps those as strings
+const numberOrUndefined = (value: unknown): number | undefined => {
+  return typeof value === 'number' && !isNaN(value) ? value : undefined
+}
+
+const getTracks = (probe: ProbeData): TrackInfo[] => {
+  return probe.streams
+    .filter((s) => s.codec_type === 'audio' || s.codec_type === 'subtitle')
+    .map((s) => ({
+      index: s.index ?? 0,
+      type: s.codec_type as TrackInfo['type'],
+      codec: s.codec_name,
+      language: s.tags?.language,
+      title: s.tags?.title,
+      channels: numberOrUndefined(s.channels),
+      bitrate: numberOrUndefined(s.bit_rate)
+    }))
+}
+
+// Pixel formats with an alpha channel. pal8 (GIF, some PNGs) may or may not have a transparent palette entry,
+// it's treated as transparent - an unused alpha plane costs next to nothing
+const alphaPixelFormats = /^(yuva|rgba|argb|bgra|abgr|gbrap|ya|pal8)/
+
+// Only these image formats can hold more than one frame
+const isAnimatableImage = (probe: ProbeData): boolean =>
+  /(^|,)(gif|webp|apng)(,|$)|webp_pipe/.test(probe.format.format_name ?? '')
+
+// ffprobe doesn't report a frame count for GIF/WebP/APNG, so the frames are counted - decoding only stops at
+// the end, but these files are small
+const countFrames = (filePath: string): Promise<number> => {
+  return new Promise((resolve) => {
+    ffmpeg.ffprobe(filePath, ['-count_frames', '-select_streams', 'v:0'], (err, data) => {
+      resolve(err ? 1 : Number(data.streams[0]?.nb_read_frames) || 1)
+    })
+  })
+}
+
+export const getMediaInfo = (probe: ProbeData): MediaInfo => {
+  const video = probe.streams.find((s) => s.codec_type === 'video' && !isAttachedPic(s))
+  const audio = probe.streams.find((s) => s.codec_type === 'audio')
+
+  return {
+    videoCodec: video?.codec_name,
+    audioCodec: audio?.codec_name,
+    width: numberOrUndefined(video?.width),
+    height: numberOrUndefined(video?.height),
+    frameRate: parseFrameRate(video?.avg_frame_rate) ?? parseFrameRate(video?.r_frame_rate),
+    bitrate: numberOrUndefined(probe.format.bit_rate),
+    channelLayout: audio?.channel_layout,
+    pixelFormat: video?.pix_fmt,
+    hdr: detectHdr(video),
+    alpha: alphaPixelFormats.test(video?.pix_fmt ?? ''),
+    tracks: video ? getTracks(probe) : undefined
+  }
+}
+
+// Scanning limits - a NAS share with hundreds of thousands of files would otherwise open them all at once and
+// run out of file handles, and every ffprobe is a process of its own
+const FS_CONCURRENCY = 32
+const PROBE_CONCURRENCY = 4
+const PROGRESS_INTERVAL_MS = 250
+
+// Runs at most `limit` tasks at a time, the rest wait in line. A finished task hands its slot to the next one
+const createLimiter = (limit: number): (<T>(task: () => Promise<T>) => Promise<T>) => {
+  let active = 0
+  const waiting: (() => void)[] = []
+  return async (task) => {
+    if (active < limit) active++
+    else await new Promise<void>((resolve) => waiting.push(resolve))
+    try {
+      return await task()
+    } finally {
+      const next = waiting.shift()
+      if (next) next()
+      else active--
+    }
+  }
+}
+
+// Asks ffprobe what's really in a file - null for files ffprobe can't read (broken, or not media at all)
+const detailFile = async (filePath: string, sizeBytes: number): Promise<DirItem | null> => {
+  const probe = await probeFile(filePath).catch(() => null)
+  const pathExt = probe ? classifyProbe(probe, filePath) : null // 'video'/'image'/'audio', null if no usable streams
+  if (!probe || pathExt === null) return null
+
+  const seconds = numberOrUndefined(probe.format.duration)
+  const animated =
+    pathExt === 'image' && isAnimatableImage(probe) && (await countFrames(filePath)) > 1
+  return {
+    path: filePath,
+    name: parse(filePath).base,
+    type: 'file',
+    ext: pathExt,
+    size: bytes(sizeBytes),
+    sizeBytes,
+    // Duration only for audio/video and animations, formatted to hh:mm:ss
+    duration:
+      (pathExt !== 'image' || animated) && seconds !== undefined ? formatDuration(seconds) : 'none',
+    media: { ...getMediaInfo(probe), animated }
+  }
+}
+
+export type ScanOptions = {
+  signal?: AbortSignal // Aborting keeps what was scanned so far, see ScanResult.cancelled
+  onProgress?: (progress: ScanProgress) => void // Every PROGRESS_INTERVAL_MS while something new was found
+}
+
+// This is the app's core function - I'll add heavy commenting
+// Turns the selected paths into DirItems: folders are walked, every file that might be media is probed.
+// Folders only keep their media files, a folder without any stays as an empty folder
+export const scanPaths = async (
+  pathsToDetail: string[],
+  { signal, onProgress }: ScanOptions = {}
+): Promise<ScanResult> => {
+  const limitFs = createLimiter(FS_CONCURRENCY)
+  const limitProbe = createLimiter(PROBE_CONCURRENCY)
+  // Real paths of the folders walked so far, to the path they were found under. Links are followed, so a link
+  // pointing back up the tree (or a second link to the same folder) would otherwise be walked forever
+  const walked = new Map<string, string>()
+  const errors: ScanError[] = []
+  let scannedFiles = 0
+  let pending: ScanProgress = { scannedFiles: 0, found: [], errors: [] } // Not reported yet
+
+  const reportProgress = (): void => {
+    if (
+      pending.found.length === 0 &&
+      pending.errors.length === 0 &&
+      pending.scannedFiles === scannedFiles
+    ) {
+      return
+    }
+    onProgress?.({ ...pending, scannedFiles })
+    pending = { scannedFiles, found: [], errors: [] }
+  }
+  const progressTimer = onProgress ? setInterval(reportProgress, PROGRESS_INTERVAL_MS) : null
+
+  const addError = (errorPath: string, message: string): void => {
+    console.error(`Error processing path ${errorPath}: ${message}`)
+    const error = { path: errorPath, message }
+    errors.push(error)
+    pending.errors.push(error)
+  }
+
+  const scanFolder = async (
+    folderPath: string,
+    parents: ScannedFile['folders']
+  ): Promise<DirItem | undefined> => {
+    const realFolder = await limitFs(() => realpath(folderPath))
+    const walkedAs = walked.get(realFolder)
+    if (walkedAs !== undefined) {
+      addError(
+        folderPath,
+        `Same folder as ${walkedAs} (a link loop or a second link to it), scanned once`
+      )
+      return undefined
+    }
+    walked.set(realFolder, folderPath)
+
+    const childNames = await limitFs(() => readdir(folderPath)) // readdir gets the names of the children items
+    const folders = [...parents, { path: folderPath, name: parse(folderPath).base }]
+    // Then we get the DirItem(s) of the children - the process might be repeated nested. Only the fs calls and
+    // probes take a slot, so a folder waiting for its children never blocks them
+    const children = await Promise.all(
+      childNames.map((childName) => scanPath(join(folderPath, childName), folders))
+    )
+
+    // Only the media inside counts - a folder full of documents with one video is as big as the video
+    const mediaChildren = children.filter((child): child is DirItem => child !== undefined)
+    const sizeBytes = mediaChildren.reduce((sum, child) => sum + (child.sizeBytes ?? 0), 0)
+    return {
+      path: folderPath,
+      isExpanded: false,
+      name: parse(folderPath).base, // gets the last item in the path - c:/documents/hailmary => hailmary
+      type: 'folder',
+      size: bytes(sizeBytes), // bytes() formats the size in bytes, e.g. 1.5GB
+      sizeBytes,
+      children: mediaChildren
+    }
+  }
+
+  const scanPath = async (
+    entryPath: string,
+    parents: ScannedFile['folders']
+  ): Promise<DirItem | undefined> => {
+    if (signal?.aborted) return undefined
+    try {
+      let stats = await limitFs(() => lstat(entryPath)) // Is file, folder or link
+      // Links are followed to whatever they point at
+      if (stats.isSymbolicLink()) {
+        stats = await limitFs(() => stat(entryPath)).catch(() => {
+          throw new Error('Broken link, what it points to is gone')
+        })
+      }
+
+      if (stats.isDirectory()) return await scanFolder(entryPath, parents)
+      if (!stats.isFile()) return undefined // Sockets, devices and the like
+      scannedFiles++
+      if (!shouldProbe(entryPath)) return undefined
+
+      const size = stats.size
+      const item = await limitProbe(async () =>
+        signal?.aborted ? null : detailFile(entryPath, size)
+      )
+      if (!item) {
+        // Anything could have no usable streams, a file named like media should have some
+        if (!signal?.aborted && isValidExt(entryPath))
+          addError(entryPath, 'Not a readable media file')
+        return undefined
+      }
+      pending.found.push({ folders: parents, item })
+      return item
+    } catch (err) {
+      addError(entryPath, err instanceof Error ? err.message : 'Unknown error')
+      return undefined
+    }
+  }
+
   try {
-    const seconds = await getVideoDurationInSeconds(filePath)
-    const hours = Math.floor(seconds / 3600)
-    const minutes = Math.floor((seconds % 3600) / 60)
-    const remainingSeconds = Math.floor(seconds % 60)
+    const items = await Promise.all(pathsToDetail.map((entryPath) => scanPath(entryPath, [])))
+    const result = items.filter((item): item is DirItem => item !== undefined)
+    console.log('Processing completed, found items:', result.length)
+    return { items: result, errors, cancelled: signal?.aborted ?? false }
+  } finally {
+    if (progressTimer) clearInterval(progressTimer)
+    reportProgress()
+  }
+}
 
-    return [hours, minutes, remainingSeconds].map((v) => v.toString().padStart(2, '0')).join(':')
-  } catch (err) {
-    console.error('err in getDuration in fileUtils.ts', err)
-    throw err
+// The scan without progress or cancelling, for callers that only want the items (CLI, watch folders, resuming).
+// Unreadable paths were already logged by the scan
+export const handleGetDetails = async (
+  _e: IpcMainInvokeEvent | null,
+  pathsToDetail: string[]
+): Promise<DirItem[]> => {
+  const { items } = await scanPaths(pathsToDetail)
+  return items
+}
+
+// 'hh:mm:ss' (formatDuration) or 'hh:mm:ss.xx' (ffmpeg timemarks) to seconds, undefined for anything else
+export const toSeconds = (time: string | undefined): number | undefined => {
+  if (!time) return undefined
+  const parts = time.split(':').map(Number)
+  if (parts.length !== 3 || parts.some(isNaN)) return undefined
+  const [hours, minutes, seconds] = parts
+  return hours * 3600 + minutes * 60 + seconds
+}
+
+// The parts of ffprobe's output we rely on - fluent-ffmpeg ships no types of its own
+type ProbeStream = {
+  index?: number
+  codec_type?: string
+  codec_name?: string
+  width?: number
+  height?: number
+  r_frame_rate?: string
+  avg_frame_rate?: string
+  pix_fmt?: string
+  channel_layout?: string
+  channels?: number
+  bit_rate?: number
+  color_transfer?: string
+  side_data_type?: string
+  nb_read_frames?: number | string // Only with -count_frames
+  disposition?: { attached_pic?: number }
+  tags?: { language?: string; title?: string }
+}
+
+export type ProbeData = {
+  streams: ProbeStream[]
+  format: {
+    format_name?: string
+    duration?: number
+    size?: number
+    bit_rate?: number
+    tags?: { major_brand?: string }
   }
 }
+
+export const probeFile = (filePath: string): Promise<ProbeData> => {
+  return new Promise((resolve, reject) => {
+    ffmpeg.ffprobe(filePath, (err, data) => (err ? reject(err) : resolve(data)))
+  })
+}
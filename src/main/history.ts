@@ -0,0 +1,165 @@
+import fs from 'fs/promises'
+import { randomUUID } from 'crypto'
+import { HistoryEntry, HistoryRun, HistoryRunOutcome } from '../types'
+
+// Every batch is recorded here - what went in, what came out and what was skipped or failed - so the results
+// outlive CONVERSION_COMPLETE clearing the explorer. The history is a single JSON file written when a run
+// starts, shortly after each recorded file and when it ends; a run the app died in shows up as 'interrupted'
+// with the files it got through
+const MAX_RUNS = 1000 // Oldest runs go first, a run of a few thousand files is a few MB
+const SAVE_DELAY_MS = 10000 // Files finishing close together are written at once, the whole file is rewritten each time
+
+let historyPath: string | null = null // Only set by the app (index.ts), the CLI keeps no history
+let savedRuns: HistoryRun[] | null = null // What the file holds, read once and kept up to date by every write
+let currentRun: HistoryRun | null = null // Its entries stay empty, the files of the running run are in currentEntries
+const currentEntries = new Map<string, HistoryEntry>() // By input path
+let writeChain: Promise<void> = Promise.resolve()
+let saveTimer: ReturnType<typeof setTimeout> | null = null
+
+export const setHistoryPath = (filePath: string): void => {
+  historyPath = filePath
+}
+
+const readRuns = async (): Promise<HistoryRun[]> => {
+  if (!historyPath) return []
+  try {
+    return JSON.parse(await fs.readFile(historyPath, 'utf-8'))
+  } catch (err) {
+    return [] // Missing or broken history simply means nothing recorded yet
+  }
+}
+
+const loadRuns = async (): Promise<HistoryRun[]> => {
+  if (!savedRuns) savedRuns = await readRuns()
+  return savedRuns
+}
+
+// Read-modify-write through the chain, so a run ending while the next one starts loses neither
+const updateRuns = (update: (runs: HistoryRun[]) => HistoryRun[]): Promise<void> => {
+  if (!historyPath) return writeChain
+  const target = historyPath
+  writeChain = writeChain
+    .then(async () => {
+      const runs = update(await loadRuns()).slice(-MAX_RUNS)
+      savedRuns = runs
+      await fs.writeFile(`${target}.tmp`, JSON.stringify(runs, null, 2))
+      await fs.rename(`${target}.tmp`, target)
+    })
+    .catch((err) => console.error('Error writing conversion history:', err))
+  return writeChain
+}
+
+const saveRun = (run: HistoryRun): Promise<void> =>
+  updateRuns((runs) => [...runs.filter((r) => r.id !== run.id), run])
+
+// The running run as it is now - entries keep changing (encode times) until the write gets its turn
+const snapshotRun = (run: HistoryRun): HistoryRun =>
+  structuredClone({ ...run, entries: [...currentEntries.values()] })
+
+const scheduleSave = (): void => {
+  if (saveTimer) return
+  saveTimer = setTimeout(() => {
+    saveTimer = null
+    if (currentRun) saveRun(snapshotRun(currentRun))
+  }, SAVE_DELAY_MS)
+}
+
+const cancelSave = (): void => {
+  if (saveTimer) clearTimeout(saveTimer)
+  saveTimer = null
+}
+
+export const startHistoryRun = (
+  fields: Pick<HistoryRun, 'source' | 'outputDir' | 'presetName'>
+): void => {
+  currentRun = {
+    id: randomUUID(),
+    startedAt: new Date().toISOString(),
+    outcome: 'running',
+    entries: [],
+    ...fields
+  }
+  currentEntries.clear()
+  saveRun(snapshotRun(currentRun))
+}
+
+// Replaces an earlier entry of the same file - a failed in-place replacement ends up 'failed', not 'converted'
+export const recordHistoryEntry = (entry: HistoryEntry): void => {
+  if (!currentRun) return
+  currentEntries.delete(entry.inputPath) // Goes to the end, like a new entry
+  currentEntries.set(entry.inputPath, entry)
+  scheduleSave()
+}
+
+// Only for files that already have an entry - a file killed by Stop isn't recorded at all
+export const recordEncodeSeconds = (inputPath: string, encodeSeconds: number): void => {
+  const entry = currentRun && currentEntries.get(inputPath)
+  if (entry) {
+    entry.encodeSeconds = encodeSeconds
+    scheduleSave()
+  }
+}
+
+export const finishHistoryRun = async (outcome: HistoryRunOutcome): Promise<void> => {
+  if (!currentRun) return
+  cancelSave()
+  const run = { ...snapshotRun(currentRun), outcome, finishedAt: new Date().toISOString() }
+  currentRun = null
+  currentEntries.clear()
+  await saveRun(run)
+}
+
+// Newest first. A 'running' run that isn't the current one was cut short by a quit or a crash
+export const listHistory = async (): Promise<HistoryRun[]> => {
+  await writeChain
+  const runs = await loadRuns()
+  return runs
+    .map((run) =>
+      run.outcome === 'running' && run.id !== currentRun?.id
+        ? { ...run, outcome: 'interrupted' as const }
+        : run
+    )
+    .reverse()
+}
+
+const CSV_COLUMNS: (keyof HistoryEntry)[] = [
+  'inputPath',
+  'outputFile',
+  'type',
+  'status',
+  'inputBytes',
+  'outputBytes',
+  'durationSeconds',
+  'encodeSeconds',
+  'reason'
+]
+
+const csvField = (value: unknown): string => {
+  if (value === undefined || value === null) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+// One row per file, sizes in bytes and times in seconds so spreadsheets can sum them
+export const formatRunCsv = (run: HistoryRun): string =>
+  [
+    [...CSV_COLUMNS, 'savedBytes'].join(','),
+    ...run.entries.map((entry) =>
+      [
+        ...CSV_COLUMNS.map((column) => csvField(entry[column])),
+        entry.inputBytes !== undefined && entry.outputBytes !== undefined
+          ? entry.inputBytes - entry.outputBytes
+          : ''
+      ].join(',')
+    )
+  ].join('\n') + '\n'
+
+export const exportHistoryRun = async (
+  runId: string,
+  format: 'csv' | 'json',
+  filePath: string
+): Promise<void> => {
+  const run = (await listHistory()).find((r) => r.id === runId)
+  if (!run) throw new Error('That run is no longer in the history')
+  await fs.writeFile(filePath, format === 'csv' ? formatRunCsv(run) : JSON.stringify(run, null, 2))
+}
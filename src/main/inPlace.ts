@@ -0,0 +1,262 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { ConversionQueue, InPlaceOptions, InPlaceRun, UndoResult } from '../types'
+import { probeFile } from './fileUtils'
+
+// In-place mode converts each file next to its source under a temp name, checks the result and only then
+// moves the original away (to the system trash or a backup folder) and gives the output its final name.
+// Every replacement is written to the run's journal, so the whole run can be undone later.
+// A run folder lives in the backup directory and holds the journal, the backups and the run's job manifest.
+export const JOURNAL_NAME = 'journal.json'
+const TEMP_SUFFIX = '.mediamagic-tmp'
+
+type JournalEntry = {
+  originalPath: string
+  outputFile: string // The converted file that took the original's place
+  outputSize: number
+  backupPath: string | null // Null when the original went to the trash
+}
+
+type Journal = {
+  version: 1
+  createdAt: string
+  originals: InPlaceOptions['originals']
+  entries: JournalEntry[]
+}
+
+let journal: Journal | null = null
+let journalPath: string | null = null
+let writeChain: Promise<void> = Promise.resolve() // Several workers finish files at once
+
+// Moving to the trash needs the platform's trash, which only the app has (shell.trashItem) - set by index.ts
+let trashHandler: ((filePath: string) => Promise<void>) | null = null
+
+export const setTrashHandler = (handler: (filePath: string) => Promise<void>): void => {
+  trashHandler = handler
+}
+
+// The temp name ffmpeg writes to - hidden, and never the same as the original even when the container is
+export const tempOutputPath = (finalPath: string): string => {
+  return path.join(path.dirname(finalPath), `.${path.basename(finalPath)}${TEMP_SUFFIX}`)
+}
+
+const checkOriginalsTarget = (originals: InPlaceOptions['originals']): void => {
+  if (originals === 'trash' && !trashHandler) {
+    throw new Error(
+      'Moving originals to the trash is only available in the app, use a backup folder'
+    )
+  }
+}
+
+export const createRunDir = async (
+  backupRoot: string,
+  originals: InPlaceOptions['originals']
+): Promise<string> => {
+  checkOriginalsTarget(originals)
+  const createdAt = new Date().toISOString()
+  const runDir = path.join(backupRoot, `run-${createdAt.replace(/[:.]/g, '-')}`)
+  await fs.mkdir(runDir, { recursive: true })
+  return runDir
+}
+
+const readJournal = async (filePath: string): Promise<Journal> => {
+  return JSON.parse(await fs.readFile(filePath, 'utf-8'))
+}
+
+// Rejects when the write fails - an original must not be moved unless its entry is on disk. The chain itself
+// carries on for the next write
+const writeJournal = (): Promise<void> => {
+  if (!journal || !journalPath) return writeChain
+  const snapshot = JSON.stringify(journal, null, 2)
+  const target = journalPath
+
+  const write = writeChain.then(async () => {
+    await fs.writeFile(`${target}.tmp`, snapshot)
+    await fs.rename(`${target}.tmp`, target)
+  })
+  writeChain = write.catch((err) => console.error('Error writing in-place journal:', err))
+  return write
+}
+
+const dropEntry = async (entry: JournalEntry): Promise<void> => {
+  if (!journal) return
+  journal.entries = journal.entries.filter((e) => e !== entry)
+  await writeJournal()
+}
+
+// Starts or, for a resumed run, continues the journal in runDir
+export const openJournal = async (
+  runDir: string,
+  originals: InPlaceOptions['originals']
+): Promise<void> => {
+  checkOriginalsTarget(originals)
+  journalPath = path.join(runDir, JOURNAL_NAME)
+  journal = await readJournal(journalPath).catch(() => ({
+    version: 1 as const,
+    createdAt: new Date().toISOString(),
+    originals,
+    entries: []
+  }))
+  await writeJournal()
+}
+
+// rename() can't cross drives, and the backup folder is often on another one
+const moveFile = async (from: string, to: string): Promise<void> => {
+  await fs.mkdir(path.dirname(to), { recursive: true })
+  try {
+    await fs.rename(from, to)
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'EXDEV') throw err
+    await fs.copyFile(from, to)
+    await fs.rm(from)
+  }
+}
+
+// Mirrors the original's absolute path inside the run folder, so files with the same name can't clash
+const backupPathFor = (runDir: string, originalPath: string): string => {
+  const withoutRoot = path
+    .resolve(originalPath)
+    .replace(/^([a-zA-Z]):/, '$1')
+    .replace(/^[\\/]+/, '')
+  return path.join(runDir, 'originals', withoutRoot)
+}
+
+// The original is only touched if the output is a readable media file about as long as the input
+const verifyOutput = async (item: ConversionQueue, outputFile: string): Promise<void> => {
+  const probe = await probeFile(outputFile).catch(() => null)
+  const streamType = item.type === 'audio' ? 'audio' : 'video'
+  if (!probe || !probe.streams.some((stream) => stream.codec_type === streamType)) {
+    throw new Error(`Converted file is not readable, the original was kept: ${outputFile}`)
+  }
+
+  const duration = probe.format.duration
+  if (item.durationSeconds && typeof duration === 'number') {
+    const tolerance = Math.max(1, item.durationSeconds * 0.02)
+    if (Math.abs(duration - item.durationSeconds) > tolerance) {
+      throw new Error(
+        `Converted file is ${duration.toFixed(1)}s long instead of ${item.durationSeconds.toFixed(1)}s, the original was kept`
+      )
+    }
+  }
+}
+
+// Checks the temp output, moves the original away and gives the output its final name. The entry is journaled
+// before the original is touched, so the run can be undone whatever fails later. When renaming the output fails,
+// a backed up original is put back - a trashed one can't be, then the error says where both files are
+export const replaceOriginal = async (
+  item: ConversionQueue,
+  tempFile: string,
+  finalFile: string
+): Promise<void> => {
+  if (!journal || !journalPath) throw new Error('In-place journal is not open')
+  await verifyOutput(item, tempFile)
+
+  const runDir = path.dirname(journalPath)
+  const { size } = await fs.stat(tempFile)
+  const backupPath = journal.originals === 'trash' ? null : backupPathFor(runDir, item.inputPath)
+  const entry: JournalEntry = {
+    originalPath: item.inputPath,
+    outputFile: finalFile,
+    outputSize: size,
+    backupPath
+  }
+  journal.entries.push(entry)
+  await writeJournal()
+
+  try {
+    if (backupPath) await moveFile(item.inputPath, backupPath)
+    else await trashHandler!(item.inputPath)
+  } catch (err) {
+    await dropEntry(entry)
+    throw err
+  }
+
+  try {
+    await fs.rename(tempFile, finalFile)
+  } catch (err) {
+    const message = (err as Error).message
+    if (!backupPath) {
+      throw new Error(
+        `${message} - the original is in the trash, the converted file was kept as ${tempFile}`
+      )
+    }
+    try {
+      await moveFile(backupPath, item.inputPath)
+    } catch {
+      throw new Error(
+        `${message} - the original is backed up at ${backupPath}, the converted file was kept as ${tempFile}`
+      )
+    }
+    await dropEntry(entry)
+    throw err
+  }
+}
+
+export const closeJournal = async (): Promise<void> => {
+  await writeChain
+  journal = null
+  journalPath = null
+}
+
+// Runs with at least one replaced file, newest first
+export const listInPlaceRuns = async (backupRoot: string): Promise<InPlaceRun[]> => {
+  const names = await fs.readdir(backupRoot).catch(() => [] as string[])
+  const runs: InPlaceRun[] = []
+
+  for (const name of names) {
+    const runDir = path.join(backupRoot, name)
+    try {
+      const runJournal = await readJournal(path.join(runDir, JOURNAL_NAME))
+      if (runJournal.entries.length === 0) continue
+      runs.push({
+        runDir,
+        createdAt: runJournal.createdAt,
+        originals: runJournal.originals,
+        files: runJournal.entries.length
+      })
+    } catch (err) {
+      // Not a run folder, or its journal is unreadable
+    }
+  }
+
+  return runs.sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+// Puts every backed up original back and removes its output. Trashed originals have to be restored from the
+// trash by hand, so their outputs are left alone and they stay in the journal - it's the only record of where
+// they came from. The run folder is removed once nothing is left in it to undo
+export const undoInPlaceRun = async (runDir: string): Promise<UndoResult> => {
+  const runJournalPath = path.join(runDir, JOURNAL_NAME)
+  const runJournal = await readJournal(runJournalPath)
+  const result: UndoResult = { restored: 0, notRestored: [] }
+  const remaining: JournalEntry[] = []
+
+  // Newest first, in case a later file replaced an output of an earlier one
+  for (const entry of [...runJournal.entries].reverse()) {
+    const backupExists = entry.backupPath
+      ? await fs.access(entry.backupPath).then(
+          () => true,
+          () => false
+        )
+      : false
+    if (!entry.backupPath || !backupExists) {
+      result.notRestored.push(entry.originalPath)
+      remaining.push(entry) // A missing backup might reappear (e.g. an unplugged drive)
+      continue
+    }
+
+    await fs.rm(entry.outputFile, { force: true })
+    await moveFile(entry.backupPath, entry.originalPath)
+    result.restored++
+  }
+
+  if (remaining.length === 0) {
+    await fs.rm(runDir, { recursive: true, force: true })
+  } else {
+    await fs.writeFile(
+      runJournalPath,
+      JSON.stringify({ ...runJournal, entries: remaining.reverse() }, null, 2)
+    )
+  }
+  return result
+}
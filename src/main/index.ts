@@ -2,33 +2,55 @@ import { app, shell, BrowserWindow } from 'electron'
 import { join } from 'path'
 import { electronApp, optimizer, is } from '@electron-toolkit/utils'
 import ipc from './ipc'
-import { handleStopAllFFMPEGProcesses } from './ipc'
+import { handleStopAllFFMPEGProcesses } from './ffmpegUtils'
+import { setMessageHandler } from './messaging'
+import { setJobRegistryPath } from './jobManifest'
+import { setHistoryPath } from './history'
+import { setTrashHandler } from './inPlace'
+import { setPreviewCacheDir } from './previews'
+import { BatchProgress } from '../types'
 
 // Global state
 let ipcInitialized = false // To make sure only one instance is active
 let mainWindow: BrowserWindow | null = null
 
-// Utility function for sending IPC messages to renderer from any file without needing to import/check mainWindow
-export const sendToRenderer = (channel: string, ...args): void => {
-  if (mainWindow && !mainWindow.isDestroyed()) {
-    try {
-      mainWindow.webContents.send(channel, ...args)
-    } catch (error) {
-      console.error('Error sending to renderer:', error)
+// Route the pipeline's messages to whichever window is currently open
+setMessageHandler({
+  send: (channel, ...args) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      try {
+        mainWindow.webContents.send(channel, ...args)
+      } catch (error) {
+        console.error('Error sending to renderer:', error)
+      }
+      updateTaskbarProgress(channel, args[0])
+    }
+  },
+  log: (message) => {
+    if (mainWindow && !mainWindow.isDestroyed()) {
+      console.log('Window exists')
+      try {
+        mainWindow.webContents.executeJavaScript(`console.log("${message}")`)
+      } catch (error) {
+        console.error('Error logging to renderer:', error)
+      }
+    } else {
+      console.error('Window does NOT exist')
     }
   }
-}
+})
 
-export const logToRenderer = (message: string): void => {
-  if (mainWindow && !mainWindow.isDestroyed()) {
-    console.log('Window exists')
-    try {
-      mainWindow.webContents.executeJavaScript(`console.log("${message}")`)
-    } catch (error) {
-      console.error('Error logging to renderer:', error)
-    }
-  } else {
-    console.error('Window does NOT exist')
+// In-place mode can send replaced originals to the system trash, which only electron knows how to reach
+setTrashHandler((filePath) => shell.trashItem(filePath))
+
+// Mirrors the batch progress on the taskbar (Windows/Linux) or dock (macOS), -1 removes it
+const updateTaskbarProgress = (channel: string, payload?: BatchProgress): void => {
+  if (channel === 'BATCH_PROGRESS' && payload) {
+    mainWindow?.setProgressBar(payload.percent / 100, {
+      mode: payload.paused ? 'paused' : 'normal'
+    })
+  } else if (channel === 'CONVERSION_COMPLETE' || channel === 'CONVERSION_STOPPED') {
+    mainWindow?.setProgressBar(-1)
   }
 }
 
@@ -85,6 +107,11 @@ app
       optimizer.watchWindowShortcuts(window)
     })
 
+    // Unfinished batches are tracked here so they can be offered for resuming on the next launch
+    setJobRegistryPath(join(app.getPath('userData'), 'unfinished-jobs.json'))
+    setPreviewCacheDir(join(app.getPath('userData'), 'previews'))
+    setHistoryPath(join(app.getPath('userData'), 'history.json'))
+
     // Initialize IPC handlers once
     if (!ipcInitialized) {
       ipc()
@@ -94,7 +121,8 @@ app
     createWindow()
     console.log('Main process is ready!')
 
-    // Clean up FFmpeg processes before quit
+    // Clean up FFmpeg processes before quit - the job manifest is kept on purpose, the killed items
+    // stay 'running' in it and are redone when the job is resumed on the next launch
     app.on('before-quit', async () => {
       try {
         await handleStopAllFFMPEGProcesses(undefined)
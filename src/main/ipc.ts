@@ -1,16 +1,56 @@
-import { ipcMain, IpcMainInvokeEvent, dialog } from 'electron'
-import { lstat, readdir } from 'fs/promises'
-import path, { parse, join } from 'path'
-import bytes from 'bytes'
-import { getFolderSize } from 'go-get-folder-size'
-import { DirItem } from '../types'
-import { exec } from 'child_process'
-import { isValidExt, getDuration } from './fileUtils'
-import { convertExplorer } from './ffmpegUtils'
-import { sendToRenderer } from './index'
+import { app, ipcMain, IpcMainInvokeEvent, dialog, shell } from 'electron'
+import path, { join } from 'path'
+import {
+  ConversionOptions,
+  ConversionPreset,
+  DirItem,
+  DuplicateGroup,
+  ext,
+  HistoryRun,
+  ImageTraits,
+  InPlaceRun,
+  ScanResult,
+  SelectionEstimate,
+  TestEncodeResult,
+  TrackActions,
+  TrackInfo,
+  UndoResult,
+  UnfinishedJob,
+  WatchFolder,
+  WatchState
+} from '../types'
+import { handleGetDetails, scanPaths, toSeconds } from './fileUtils'
+import {
+  convertExplorer,
+  handleStopAllFFMPEGProcesses,
+  cancelItem,
+  pauseConversion,
+  resumeConversion,
+  resumeJob,
+  isForegroundBatch,
+  abandonWaitingBatch
+} from './ffmpegUtils'
+import { finishJob, listUnfinishedJobs, discardJob } from './jobManifest'
+import { listHistory, exportHistoryRun } from './history'
+import { loadPresets, getPreset, examplePresetsFile } from './presets'
+import { loadOptions, saveOptions, resolveOptions } from './options'
+import { createRunDir, listInPlaceRuns, undoInPlaceRun } from './inPlace'
+import { getPreview } from './previews'
+import { runTestEncode } from './testEncode'
+import { cancelEstimate, estimateSelection } from './estimate'
+import { findDuplicates } from './duplicates'
+import {
+  initWatchFolders,
+  getWatchState,
+  addWatchFolder,
+  setWatchFolderEnabled,
+  removeWatchFolder
+} from './watchFolders'
+import { sendToRenderer } from './messaging'
 import fs from 'fs'
 
 let isIpcInitialized = false
+const runningScans = new Set<AbortController>() // SCAN_CANCEL stops all of them
 
 export default function ipc(): void {
   if (isIpcInitialized) {
@@ -22,115 +62,239 @@ export default function ipc(): void {
   try {
     ipcMain.removeHandler('SELECT_DIRS')
     ipcMain.removeHandler('GET_DETAILS')
+    ipcMain.removeHandler('CANCEL_SCAN')
     ipcMain.removeHandler('SELECT_OUTPUT_DIR')
     ipcMain.removeHandler('CONVERT_EXPLORER')
     ipcMain.removeHandler('STOP_ALL_FFMPEG_PROCESSES')
+    ipcMain.removeHandler('CANCEL_ITEM')
+    ipcMain.removeHandler('PAUSE_CONVERSION')
+    ipcMain.removeHandler('RESUME_CONVERSION')
+    ipcMain.removeHandler('GET_PRESETS')
+    ipcMain.removeHandler('OPEN_PRESETS_FILE')
+    ipcMain.removeHandler('GET_UNFINISHED_JOBS')
+    ipcMain.removeHandler('RESUME_JOB')
+    ipcMain.removeHandler('DISCARD_JOB')
+    ipcMain.removeHandler('GET_OPTIONS')
+    ipcMain.removeHandler('SAVE_OPTIONS')
+    ipcMain.removeHandler('GET_IN_PLACE_RUNS')
+    ipcMain.removeHandler('UNDO_IN_PLACE_RUN')
+    ipcMain.removeHandler('GET_PREVIEW')
+    ipcMain.removeHandler('TEST_ENCODE')
+    ipcMain.removeHandler('ESTIMATE_SELECTION')
+    ipcMain.removeHandler('CANCEL_ESTIMATE')
+    ipcMain.removeHandler('GET_WATCH_FOLDERS')
+    ipcMain.removeHandler('ADD_WATCH_FOLDER')
+    ipcMain.removeHandler('SET_WATCH_FOLDER_ENABLED')
+    ipcMain.removeHandler('REMOVE_WATCH_FOLDER')
+    ipcMain.removeHandler('GET_HISTORY')
+    ipcMain.removeHandler('EXPORT_HISTORY_RUN')
+    ipcMain.removeHandler('FIND_DUPLICATES')
   } catch (error) {
     // Ignore errors from removing non-existent handlers
   }
 
   // Register handlers
   ipcMain.handle('SELECT_DIRS', handleSelectDirs)
-  ipcMain.handle('GET_DETAILS', handleGetDetails)
+  ipcMain.handle('GET_DETAILS', (_e, pathsToDetail: string[]) => scanForRenderer(pathsToDetail))
+  ipcMain.handle('CANCEL_SCAN', () => runningScans.forEach((scan) => scan.abort()))
   ipcMain.handle('SELECT_OUTPUT_DIR', handleSelectOutputDir)
   ipcMain.handle('CONVERT_EXPLORER', handleConvertExplorer)
-  ipcMain.handle('STOP_ALL_FFMPEG_PROCESSES', handleStopAllFFMPEGProcesses) // Pass here the parentOutputDir if u wish to remove it after clicking STOP
+  ipcMain.handle('STOP_ALL_FFMPEG_PROCESSES', handleStopConversion) // Pass here the parentOutputDir if u wish to remove it after clicking STOP
+  // The file view's controls only reach the user's own batch, never a watch-folder batch running out of sight
+  ipcMain.handle('CANCEL_ITEM', (_e, inputPath: string) =>
+    isForegroundBatch() ? cancelItem(inputPath) : undefined
+  )
+  ipcMain.handle('PAUSE_CONVERSION', () => isForegroundBatch() && pauseConversion())
+  ipcMain.handle('RESUME_CONVERSION', () => isForegroundBatch() && resumeConversion())
+  ipcMain.handle('GET_PRESETS', handleGetPresets)
+  ipcMain.handle('OPEN_PRESETS_FILE', handleOpenPresetsFile)
+  ipcMain.handle('GET_UNFINISHED_JOBS', (): Promise<UnfinishedJob[]> => listUnfinishedJobs())
+  ipcMain.handle('RESUME_JOB', handleResumeJob)
+  ipcMain.handle('DISCARD_JOB', (_e, manifestPath: string) => discardJob(manifestPath))
+  ipcMain.handle('GET_OPTIONS', (): Promise<ConversionOptions> => loadOptions(getOptionsPath()))
+  ipcMain.handle('SAVE_OPTIONS', (_e, options: ConversionOptions) =>
+    saveOptions(getOptionsPath(), options)
+  )
+  ipcMain.handle('GET_IN_PLACE_RUNS', handleGetInPlaceRuns)
+  ipcMain.handle(
+    'UNDO_IN_PLACE_RUN',
+    (_e, runDir: string): Promise<UndoResult> => undoInPlaceRun(runDir)
+  )
+  ipcMain.handle('GET_PREVIEW', (_e, filePath: string, type: ext, duration?: string) =>
+    getPreview(filePath, type, toSeconds(duration))
+  )
+  ipcMain.handle('TEST_ENCODE', handleTestEncode)
+  ipcMain.handle('ESTIMATE_SELECTION', handleEstimateSelection)
+  ipcMain.handle('CANCEL_ESTIMATE', () => cancelEstimate())
+  ipcMain.handle('GET_WATCH_FOLDERS', (): WatchState => getWatchState())
+  ipcMain.handle(
+    'ADD_WATCH_FOLDER',
+    (_e, folder: Pick<WatchFolder, 'inputDir' | 'outputDir' | 'presetName'>) =>
+      addWatchFolder(folder)
+  )
+  ipcMain.handle('SET_WATCH_FOLDER_ENABLED', (_e, id: string, enabled: boolean) =>
+    setWatchFolderEnabled(id, enabled)
+  )
+  ipcMain.handle('REMOVE_WATCH_FOLDER', (_e, id: string) => removeWatchFolder(id))
+  ipcMain.handle('GET_HISTORY', (): Promise<HistoryRun[]> => listHistory())
+  ipcMain.handle('EXPORT_HISTORY_RUN', handleExportHistoryRun)
+  ipcMain.handle(
+    'FIND_DUPLICATES',
+    (
+      _e,
+      { explorer, similarImages }: { explorer: DirItem[]; similarImages: boolean }
+    ): Promise<DuplicateGroup[]> => findDuplicates(explorer, similarImages)
+  )
+
+  // Watch folders keep converting in the background, whether or not the window shows them
+  initWatchFolders(join(app.getPath('userData'), 'watch-folders.json'), async (presetName) => ({
+    preset: await getPreset(presetName, getUserPresetsPath()),
+    options: await loadOptions(getOptionsPath())
+  })).catch((err) => console.error('Could not start the watch folders:', err))
 
   isIpcInitialized = true
   console.log('IPC handlers initialized successfully')
 }
 
-// This is the app's core function - I'll add heavy commenting
-const handleGetDetails = async (
-  _e: IpcMainInvokeEvent | null,
-  pathsToDetail: string[]
+const handleConvertExplorer = async (
+  _e: IpcMainInvokeEvent,
+  {
+    explorer,
+    outputDir,
+    presetName,
+    options
+  }: { explorer: DirItem[]; outputDir: string; presetName?: string; options?: ConversionOptions }
+): Promise<void> => {
+  cancelEstimate() // The batch needs the CPU more than an estimate of itself
+  const resolvedOptions = resolveOptions(options)
+  const preset = await getPreset(presetName, getUserPresetsPath())
+
+  // In place there's no output folder - the run folder keeps the backups, the undo journal and the job manifest
+  if (resolvedOptions.inPlace.enabled) {
+    const runDir = await createRunDir(
+      getBackupRoot(resolvedOptions),
+      resolvedOptions.inPlace.originals
+    )
+    console.log('Converting in place, backups in:', runDir, 'using preset:', preset.name)
+    await convertExplorer(explorer, runDir, preset, resolvedOptions)
+    return
+  }
+
+  const newOutputDir = path.join(outputDir, 'converted')
+  console.log('Output is located in:', newOutputDir, 'using preset:', preset.name)
+  await convertExplorer(explorer, newOutputDir, preset, resolvedOptions)
+}
+
+const getBackupRoot = (options: ConversionOptions): string =>
+  options.inPlace.backupDir || join(app.getPath('userData'), 'in-place-backups')
+
+// eslint-disable-next-line
+const handleGetInPlaceRuns = async (_e: IpcMainInvokeEvent): Promise<InPlaceRun[]> => {
+  return await listInPlaceRuns(getBackupRoot(await loadOptions(getOptionsPath())))
+}
+
+const getOptionsPath = (): string => join(app.getPath('userData'), 'options.json')
+
+// The user pressed Stop - unlike quitting the app, that abandons the batch so it isn't offered for resuming
+// While a watch-folder batch runs, the user's batch is still waiting for it - that one is dropped instead
+const handleStopConversion = async (e: IpcMainInvokeEvent, outputDir?: string): Promise<void> => {
+  if (!isForegroundBatch()) return abandonWaitingBatch()
+  await handleStopAllFFMPEGProcesses(e, outputDir)
+  await finishJob()
+}
+
+// Restarts an unfinished job and returns its remaining files so they can be shown in the explorer
+const handleResumeJob = async (
+  _e: IpcMainInvokeEvent,
+  manifestPath: string
 ): Promise<DirItem[]> => {
-  const res = await Promise.allSettled<DirItem | undefined>(
-    pathsToDetail.map(async (path: string) => {
-      try {
-        console.log('Processing path:', path)
-        const stats = await lstat(path) // Is file or folder
-
-        if (stats.isDirectory()) {
-          // If folder
-          const childNames = await readdir(path) // readdir gets the paths of the children items
-          const children = await Promise.all(
-            // Then we get the DirItem(s) of the children - the process might be repeated nested
-            childNames.map(async (childName: string) => {
-              return await handleGetDetails(null, [join(path, childName)]) // Refer to DirItem type structure to understand the return value
-            })
-          )
-
-          // After running the func above many times, we should have a nested structure like below - with children under children under children etc
-          // This is where we sign the final version of the detailedFolder, all children will have similar props
-          const detailedFolder: DirItem = {
-            path,
-            isExpanded: false,
-            name: parse(path).base, // gets the last item in the path - c:/documents/hailmary => hailmary
-            type: 'folder',
-            size: bytes(await getFolderSize(path)), // bytes() formats the size in bytes we get from getFolderSize
-            children: children.flat() as DirItem[] // Flattens Promise.all results into single array of items
-          }
-
-          return detailedFolder
-        }
-
-        if (stats.isFile()) {
-          // If that's a file
-          const pathExt = isValidExt(path) // Returns 'video'/'image'/'audio' if the ext is valid and null if invalid
-          if (pathExt !== null) {
-            // If different than null (if valid)
-            const detailedFile: DirItem = {
-              path,
-              name: parse(path).base,
-              type: 'file',
-              ext: pathExt,
-              size: bytes(stats.size),
-              // Calculate duration only if its an audio/video - duration returned is already formatted to hh:mm:ss
-              duration: ['video', 'audio'].includes(pathExt!) ? await getDuration(path) : 'none' // Not really sure about the 'cannot be undefined' issue with pathExt, solved it with ! anyways...
-            }
-            return detailedFile
-          }
-        }
-
-        return undefined
-      } catch (err) {
-        if (err instanceof Error) {
-          console.error(`Error processing path ${path}:`, err)
-          throw new Error(`Error processing path ${path}: ${err.message}`)
-        }
-        throw new Error(`Error processing path ${path}: Unknown error`)
-      }
-    })
-  )
+  const remaining = await resumeJob(manifestPath)
+  return await handleGetDetails(null, remaining)
+}
 
-  const filteredRes = (items: PromiseSettledResult<DirItem | undefined>[]): DirItem[] => {
-    return items.reduce((acc: DirItem[], item) => {
-      if (item.status === 'fulfilled' && item.value !== undefined) {
-        acc.push(item.value)
-      }
-      return acc
-    }, [])
+const handleTestEncode = async (
+  _e: IpcMainInvokeEvent,
+  {
+    filePath,
+    type,
+    duration,
+    presetName,
+    imageTraits,
+    tracks,
+    trackActions
+  }: {
+    filePath: string
+    type: ext
+    duration?: string
+    presetName?: string
+    imageTraits?: ImageTraits
+    tracks?: TrackInfo[]
+    trackActions?: TrackActions
   }
+): Promise<TestEncodeResult> => {
+  const preset = await getPreset(presetName, getUserPresetsPath())
+  // Target-size mode changes how videos are encoded - the saved options are the ones the next batch uses
+  const { videoRate } = await loadOptions(getOptionsPath())
+  return await runTestEncode(filePath, type, preset, {
+    videoRate,
+    durationSeconds: toSeconds(duration),
+    tracks,
+    trackActions,
+    imageTraits
+  })
+}
 
-  const result = filteredRes(res)
-  console.log('Processing completed, found items:', result.length)
-  return result
+const handleEstimateSelection = async (
+  _e: IpcMainInvokeEvent,
+  {
+    explorer,
+    presetName,
+    options
+  }: { explorer: DirItem[]; presetName?: string; options?: ConversionOptions }
+): Promise<SelectionEstimate> => {
+  const preset = await getPreset(presetName, getUserPresetsPath())
+  return await estimateSelection(explorer, preset, resolveOptions(options))
 }
 
-const handleConvertExplorer = async (
+// Returns where the report was saved, null if the dialog was cancelled
+const handleExportHistoryRun = async (
   _e: IpcMainInvokeEvent,
-  { explorer, outputDir }: { explorer: DirItem[]; outputDir: string }
-): Promise<void> => {
-  const newOutputDir = path.join(outputDir, 'converted')
-  console.log('Output is located in:', newOutputDir)
-  await convertExplorer(explorer, newOutputDir)
+  { runId, format }: { runId: string; format: 'csv' | 'json' }
+): Promise<string | null> => {
+  const res = await dialog.showSaveDialog({
+    defaultPath: `mediamagic-run-${runId.slice(0, 8)}.${format}`,
+    filters: [{ name: format.toUpperCase(), extensions: [format] }]
+  })
+  if (res.canceled || !res.filePath) return null
+  await exportHistoryRun(runId, format, res.filePath)
+  return res.filePath
+}
+
+// User presets live next to the other app data so they survive updates
+const getUserPresetsPath = (): string => join(app.getPath('userData'), 'presets.json')
+
+// eslint-disable-next-line
+const handleGetPresets = async (_e: IpcMainInvokeEvent): Promise<ConversionPreset[]> => {
+  return await loadPresets(getUserPresetsPath())
+}
+
+// Opens the user presets file in the default editor, creating it with an example on first use
+// eslint-disable-next-line
+const handleOpenPresetsFile = async (_e: IpcMainInvokeEvent): Promise<void> => {
+  const presetsPath = getUserPresetsPath()
+  if (!fs.existsSync(presetsPath)) {
+    await fs.promises.writeFile(presetsPath, examplePresetsFile)
+  }
+  const err = await shell.openPath(presetsPath)
+  if (err) {
+    throw new Error(`Could not open presets file: ${err}`)
+  }
 }
 
 const handleSelectDirs = async (
   _e: IpcMainInvokeEvent,
   { type }: { type: string }
-): Promise<DirItem[]> => {
+): Promise<ScanResult> => {
   console.log('Selection type:', type)
   const res = await dialog.showOpenDialog({
     properties:
@@ -143,8 +307,21 @@ const handleSelectDirs = async (
 
   const pathsToDetail = res.filePaths
   console.log('Selected paths:', pathsToDetail)
-  const explorer = await handleGetDetails(null, pathsToDetail)
-  return explorer
+  return await scanForRenderer(pathsToDetail)
+}
+
+// Dropped and selected paths - what's found is streamed as SCAN_PROGRESS so huge trees show up bit by bit
+const scanForRenderer = async (pathsToDetail: string[]): Promise<ScanResult> => {
+  const scan = new AbortController()
+  runningScans.add(scan)
+  try {
+    return await scanPaths(pathsToDetail, {
+      signal: scan.signal,
+      onProgress: (progress) => sendToRenderer('SCAN_PROGRESS', progress)
+    })
+  } finally {
+    runningScans.delete(scan)
+  }
 }
 
 // eslint-disable-next-line
@@ -161,45 +338,3 @@ const handleSelectOutputDir = async (_e: IpcMainInvokeEvent): Promise<string> =>
   console.log('Selected output directory:', res.filePaths[0])
   return res.filePaths[0]
 }
-
-export const handleStopAllFFMPEGProcesses = async (
-  _eOrOutputDir?: IpcMainInvokeEvent | string,
-  outputDir?: string
-): Promise<void> => {
-  // Determine which parameter is which
-  let actualOutputDir: string | undefined
-
-  if (typeof _eOrOutputDir === 'string') {
-    // Called directly with just the output directory
-    actualOutputDir = _eOrOutputDir
-  } else {
-    // Called through IPC with event and maybe output dir
-    actualOutputDir = outputDir
-  }
-
-  console.log('Stopping all FFmpeg processes please hold....')
-  // Kill FFMPEG processes first
-  try {
-    const killCmd = process.platform === 'win32' ? 'taskkill /F /IM ffmpeg.exe' : 'pkill -f ffmpeg'
-
-    await new Promise<void>((resolve) => {
-      exec(killCmd, () => resolve())
-    })
-  } catch (err) {
-    // Silently handle process termination errors
-  }
-
-  // Remove output directory if provided
-  if (actualOutputDir) {
-    try {
-      // Use a try-catch block instead of callbacks
-      await fs.promises.rm(actualOutputDir, { recursive: true })
-    } catch (err) {
-      // Silently handle directory removal errors
-    }
-  }
-
-  // Always send notification regardless of errors
-  sendToRenderer('CONVERSION_STOPPED')
-  return Promise.resolve()
-}
@@ -0,0 +1,224 @@
+import fs from 'fs/promises'
+import path from 'path'
+import {
+  ConversionOptions,
+  ConversionPreset,
+  ConversionQueue,
+  JobEntryStatus,
+  UnfinishedJob
+} from '../types'
+
+// The manifest mirrors the conversion queue on disk so a batch survives a crash or quit.
+// It lives in the output directory next to the converted files and is removed once the batch completes.
+export const MANIFEST_NAME = '.mediamagic-job.json'
+const SAVE_DELAY_MS = 2000 // Status changes close together are written at once - a big batch would rewrite it per file
+
+// Entries don't repeat the preset - it's stored once for the whole job
+export type JobEntry = Omit<ConversionQueue, 'preset'> & {
+  status: JobEntryStatus
+  outputFile: string // Points at the copy of the input for 'kept-original' entries
+  outputSize?: number // Recorded when done, used to verify the output on resume
+}
+
+export type JobManifest = {
+  version: 1
+  createdAt: string
+  updatedAt: string
+  outputDir: string
+  preset: ConversionPreset
+  options?: ConversionOptions // Missing in manifests written before options existed
+  entries: JobEntry[]
+}
+
+let manifest: JobManifest | null = null
+let manifestPath: string | null = null
+let entriesByPath = new Map<string, JobEntry>() // The manifest's entries by input path
+let writeChain: Promise<void> = Promise.resolve() // Serializes writes, several workers update the manifest at once
+let saveTimer: ReturnType<typeof setTimeout> | null = null
+
+// The registry remembers which output directories hold unfinished jobs so the app can offer them on launch.
+// It's only set by the app (index.ts) - the CLI resumes by output directory instead
+let registryPath: string | null = null
+
+export const setJobRegistryPath = (filePath: string): void => {
+  registryPath = filePath
+}
+
+const readRegistry = async (): Promise<string[]> => {
+  if (!registryPath) return []
+  try {
+    return JSON.parse(await fs.readFile(registryPath, 'utf-8'))
+  } catch (err) {
+    return [] // Missing or broken registry simply means no known jobs
+  }
+}
+
+const updateRegistry = async (update: (paths: string[]) => string[]): Promise<void> => {
+  if (!registryPath) return
+  const paths = update(await readRegistry())
+  await fs.writeFile(registryPath, JSON.stringify([...new Set(paths)], null, 2))
+}
+
+// Write to a temp file and rename it over the manifest, so a crash mid-write never leaves a truncated manifest
+const writeManifest = (): Promise<void> => {
+  if (!manifest || !manifestPath) return writeChain
+  const snapshot = JSON.stringify({ ...manifest, updatedAt: new Date().toISOString() }, null, 2)
+  const target = manifestPath
+
+  writeChain = writeChain
+    .then(async () => {
+      await fs.writeFile(`${target}.tmp`, snapshot)
+      await fs.rename(`${target}.tmp`, target)
+    })
+    .catch((err) => console.error('Error writing job manifest:', err))
+  return writeChain
+}
+
+const scheduleWrite = (): void => {
+  if (saveTimer) return
+  saveTimer = setTimeout(() => {
+    saveTimer = null
+    writeManifest()
+  }, SAVE_DELAY_MS)
+}
+
+const cancelWrite = (): void => {
+  if (saveTimer) clearTimeout(saveTimer)
+  saveTimer = null
+}
+
+// Writes the pending changes now - a stopped batch or a quitting app must leave an up to date manifest behind
+export const flushJob = (): Promise<void> => {
+  cancelWrite()
+  return writeManifest()
+}
+
+export const readManifest = async (filePath: string): Promise<JobManifest> => {
+  return JSON.parse(await fs.readFile(filePath, 'utf-8'))
+}
+
+export const startJob = async (
+  outputDir: string,
+  preset: ConversionPreset,
+  options: ConversionOptions,
+  queue: ConversionQueue[],
+  getOutputFile: (item: ConversionQueue) => string
+): Promise<void> => {
+  const now = new Date().toISOString()
+  manifestPath = path.join(outputDir, MANIFEST_NAME)
+  manifest = {
+    version: 1,
+    createdAt: now,
+    updatedAt: now,
+    outputDir,
+    preset,
+    options,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    entries: queue.map(({ preset: _preset, ...item }) => ({
+      ...item,
+      status: 'pending',
+      outputFile: getOutputFile({ ...item, preset })
+    }))
+  }
+  entriesByPath = new Map(manifest.entries.map((entry) => [entry.inputPath, entry]))
+  await flushJob()
+  await updateRegistry((paths) => [...paths, manifestPath!])
+}
+
+// Continues a job from its manifest. Returns the entries that still need converting - done entries whose
+// output is still there with the recorded size are skipped, partial outputs of interrupted entries are removed
+export const loadJobForResume = async (filePath: string): Promise<JobManifest> => {
+  const loaded = await readManifest(filePath)
+
+  for (const entry of loaded.entries) {
+    const finished = isFinished(entry)
+    if (finished) {
+      const stats = await fs.stat(entry.outputFile).catch(() => null)
+      if (stats && stats.size === entry.outputSize) continue
+      console.log(`Output missing or changed, redoing: ${entry.inputPath}`)
+    }
+    if (entry.status === 'cancelled') continue
+
+    // 'running' means the app died mid-conversion - whatever was written is incomplete
+    if (entry.status === 'running' || finished) {
+      await fs.rm(entry.outputFile, { force: true })
+    }
+    entry.status = 'pending'
+  }
+
+  manifest = loaded
+  manifestPath = filePath
+  entriesByPath = new Map(loaded.entries.map((entry) => [entry.inputPath, entry]))
+  await flushJob()
+  return loaded
+}
+
+const isFinished = (entry: JobEntry): boolean => {
+  return entry.status === 'done' || entry.status === 'kept-original'
+}
+
+// Written shortly after, see flushJob for when it has to be on disk right away
+export const updateJobEntry = (
+  inputPath: string,
+  status: JobEntryStatus,
+  outputSize?: number,
+  outputFile?: string
+): void => {
+  const entry = entriesByPath.get(inputPath)
+  if (!entry) return
+  entry.status = status
+  entry.outputSize = outputSize
+  if (outputFile) entry.outputFile = outputFile
+  scheduleWrite()
+}
+
+// The batch is over (completed or discarded by the user) - nothing left to resume
+export const finishJob = async (): Promise<void> => {
+  if (!manifestPath) return
+  const finishedPath = manifestPath
+  cancelWrite()
+  manifest = null
+  manifestPath = null
+  entriesByPath.clear()
+  await writeChain
+  await fs.rm(finishedPath, { force: true })
+  await updateRegistry((paths) => paths.filter((p) => p !== finishedPath))
+}
+
+// Lists the registered jobs that still have work left, dropping registry entries whose manifest is gone
+export const listUnfinishedJobs = async (): Promise<UnfinishedJob[]> => {
+  const jobs: UnfinishedJob[] = []
+  const stalePaths: string[] = []
+
+  for (const jobPath of await readRegistry()) {
+    try {
+      const job = await readManifest(jobPath)
+      const done = job.entries.filter((e) => isFinished(e) || e.status === 'cancelled').length
+      if (done === job.entries.length) {
+        stalePaths.push(jobPath)
+        continue
+      }
+      jobs.push({
+        manifestPath: jobPath,
+        outputDir: job.outputDir,
+        presetName: job.preset.name,
+        createdAt: job.createdAt,
+        updatedAt: job.updatedAt,
+        total: job.entries.length,
+        done
+      })
+    } catch (err) {
+      stalePaths.push(jobPath)
+    }
+  }
+
+  if (stalePaths.length > 0) {
+    await updateRegistry((paths) => paths.filter((p) => !stalePaths.includes(p)))
+  }
+  return jobs
+}
+
+export const discardJob = async (filePath: string): Promise<void> => {
+  await fs.rm(filePath, { force: true })
+  await updateRegistry((paths) => paths.filter((p) => p !== filePath))
+}
@@ -0,0 +1,29 @@
+// The conversion pipeline reports through these two functions only, so it doesn't care whether
+// a BrowserWindow (index.ts) or a terminal (cli.ts) is listening on the other side
+export type MessageHandler = {
+  send: (channel: string, ...args) => void
+  log: (message: string) => void
+}
+
+let messageHandler: MessageHandler | null = null
+let batchMessagesMuted = false
+
+// Watch-folder batches run in the background - their progress and completion events would reset the file view,
+// so only the watch folders' own WATCH_* events and scans of the user's selection (SCAN_*) get through meanwhile
+export const setBatchMessagesMuted = (muted: boolean): void => {
+  batchMessagesMuted = muted
+}
+
+export const setMessageHandler = (handler: MessageHandler): void => {
+  messageHandler = handler
+}
+
+// Utility function for sending IPC messages to renderer from any file without needing to import/check mainWindow
+export const sendToRenderer = (channel: string, ...args): void => {
+  if (batchMessagesMuted && !/^(WATCH|SCAN)_/.test(channel)) return
+  messageHandler?.send(channel, ...args)
+}
+
+export const logToRenderer = (message: string): void => {
+  messageHandler?.log(message)
+}
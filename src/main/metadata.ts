@@ -0,0 +1,116 @@
+import { execFile } from 'child_process'
+import fs from 'fs/promises'
+import { ext } from '../types'
+
+// Keeps what the source knew about itself - tags, chapters, cover art, capture dates - on the converted file.
+// ffmpeg carries tags over for audio/video, but it can't write EXIF into AVIF, so images get theirs from
+// exiftool afterwards. Unlike ffmpeg, exiftool is optional - it's looked up on the PATH, and without it
+// images simply lose their EXIF as they always did.
+
+// Location tags phones write into videos - removed when the preset strips private metadata
+const privateVideoTags = ['location', 'location-eng', 'com.apple.quicktime.location.ISO6709']
+
+// exiftool arguments removing location, device serial numbers and owner names
+const privateExifArgs = [
+  '-gps:all=',
+  '-xmp:LocationShown*=',
+  '-SerialNumber=',
+  '-LensSerialNumber=',
+  '-InternalSerialNumber=',
+  '-OwnerName=',
+  '-CameraOwnerName=',
+  '-Keys:GPSCoordinates=',
+  '-UserData:GPSCoordinates='
+]
+
+// Containers that can hold cover art next to the audio
+const coverArtContainers = ['mp3', 'm4a', 'mp4', 'flac']
+
+// Global tags and chapters - stream tags (track languages and titles) come along with each mapped stream,
+// see streamMapping.ts. ffmpeg rotates the pixels itself (autorotate is on by default), so a copied rotate
+// tag would turn the video a second time
+export const videoMetadataOptions = (stripPrivate: boolean): string[] => [
+  '-map_metadata',
+  '0',
+  '-map_chapters',
+  '0',
+  '-metadata:s:v:0',
+  'rotate=0',
+  ...(stripPrivate ? privateVideoTags.flatMap((tag) => ['-metadata', `${tag}=`]) : [])
+]
+
+// Tags, chapters and the cover art - cover art is a video stream ffmpeg would otherwise try to encode,
+// so it's copied as-is where the container allows it and dropped everywhere else
+export const audioMetadataOptions = (container: string): string[] => {
+  const coverArt = coverArtContainers.includes(container)
+    ? ['-map', '0:a:0', '-map', '0:v?', '-c:v', 'copy', '-disposition:v', 'attached_pic']
+    : ['-vn']
+  return [
+    '-map_metadata',
+    '0',
+    '-map_chapters',
+    '0',
+    ...coverArt,
+    ...(container === 'mp3' ? ['-id3v2_version', '3'] : []) // Windows Explorer doesn't read ID3v2.4 tags
+  ]
+}
+
+let exiftoolMissing = false
+
+const runExiftool = (args: string[]): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    execFile('exiftool', ['-overwrite_original', '-quiet', ...args], (err) => {
+      if (err && 'code' in err && err.code === 'ENOENT') {
+        exiftoolMissing = true
+        console.warn('exiftool was not found on the PATH, image metadata is not copied')
+      }
+      return err ? reject(err) : resolve()
+    })
+  })
+}
+
+// Capture dates often only survive as the file's mtime - date sorted libraries depend on it
+const copyTimestamps = async (inputPath: string, outputFile: string): Promise<void> => {
+  const { atime, mtime } = await fs.stat(inputPath)
+  await fs.utimes(outputFile, atime, mtime)
+}
+
+// Runs once a conversion finished. Missing or failing tools only cost the metadata, never the converted file
+export const finishConvertedMetadata = async (
+  inputPath: string,
+  outputFile: string,
+  type: ext,
+  stripPrivate: boolean
+): Promise<void> => {
+  if (type === 'image' && !exiftoolMissing) {
+    // Orientation is left out since ffmpeg already turned the pixels upright
+    await runExiftool([
+      '-tagsFromFile',
+      inputPath,
+      '-all:all',
+      '--Orientation',
+      ...(stripPrivate ? privateExifArgs : []),
+      outputFile
+    ]).catch((err) => console.warn(`Could not copy metadata to ${outputFile}:`, err.message))
+  }
+  await copyTimestamps(inputPath, outputFile).catch((err) =>
+    console.warn(`Could not copy timestamps to ${outputFile}:`, err.message)
+  )
+}
+
+// For originals copied into the output (skipped files, kept originals) - the tags are already there,
+// only the private ones may have to go, and copyFile doesn't keep the timestamps
+export const finishCopiedMetadata = async (
+  inputPath: string,
+  copyFile: string,
+  stripPrivate: boolean
+): Promise<void> => {
+  if (stripPrivate && !exiftoolMissing) {
+    await runExiftool([...privateExifArgs, copyFile]).catch((err) =>
+      console.warn(`Could not strip metadata from ${copyFile}:`, err.message)
+    )
+  }
+  await copyTimestamps(inputPath, copyFile).catch((err) =>
+    console.warn(`Could not copy timestamps to ${copyFile}:`, err.message)
+  )
+}
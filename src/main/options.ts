@@ -0,0 +1,82 @@
+import fs from 'fs/promises'
+import { ConversionOptions } from '../types'
+
+// Continuing on error is opt-in - stopping at the first failure is how the app always behaved
+export const defaultConversionOptions: ConversionOptions = {
+  errorPolicy: {
+    continueOnError: false,
+    maxRetries: 1,
+    retryOn: ['disk-full', 'encoder-missing', 'unknown'],
+    fallbackEncoder: 'libaom-av1'
+  },
+  // Thresholds sit around what the default preset itself produces (see zztodo measurements)
+  skipPolicy: {
+    enabled: true,
+    action: 'copy',
+    codecs: ['av1', 'opus'],
+    minSizeBytes: 20 * 1024,
+    videoBitsPerPixel: 0.04,
+    imageBitsPerPixel: 0.3,
+    audioKbps: 64
+  },
+  sizeGuard: {
+    enabled: true,
+    minSavingsPercent: 5
+  },
+  // '{name}' in the mirrored tree is where outputs always went - only re-runs no longer overwrite silently
+  naming: {
+    template: '{name}',
+    flatten: false,
+    collision: 'auto-number'
+  },
+  inPlace: {
+    enabled: false,
+    originals: 'backup',
+    backupDir: ''
+  },
+  videoRate: {
+    mode: 'crf',
+    targetBytes: 25 * 1024 * 1024 // A common upload limit
+  },
+  // Hard links cost no space, copying is the fallback where linking isn't possible (other drive, FAT32)
+  duplicates: {
+    action: 'hardlink'
+  }
+}
+
+type PartialOptions = { [K in keyof ConversionOptions]?: Partial<ConversionOptions[K]> }
+
+// Undefined values must not override defaults when spread - CLI flags that weren't passed are undefined
+const definedOnly = <T extends object>(values?: Partial<T>): Partial<T> => {
+  return Object.fromEntries(
+    Object.entries(values ?? {}).filter(([, value]) => value !== undefined)
+  ) as Partial<T>
+}
+
+// Fills whatever the caller left out (older saved options, CLI flags) with the defaults, group by group
+export const resolveOptions = (options?: PartialOptions): ConversionOptions => {
+  return {
+    errorPolicy: { ...defaultConversionOptions.errorPolicy, ...definedOnly(options?.errorPolicy) },
+    skipPolicy: { ...defaultConversionOptions.skipPolicy, ...definedOnly(options?.skipPolicy) },
+    sizeGuard: { ...defaultConversionOptions.sizeGuard, ...definedOnly(options?.sizeGuard) },
+    naming: { ...defaultConversionOptions.naming, ...definedOnly(options?.naming) },
+    inPlace: { ...defaultConversionOptions.inPlace, ...definedOnly(options?.inPlace) },
+    videoRate: { ...defaultConversionOptions.videoRate, ...definedOnly(options?.videoRate) },
+    duplicates: { ...defaultConversionOptions.duplicates, ...definedOnly(options?.duplicates) }
+  }
+}
+
+export const loadOptions = async (optionsPath: string): Promise<ConversionOptions> => {
+  try {
+    return resolveOptions(JSON.parse(await fs.readFile(optionsPath, 'utf-8')))
+  } catch (err) {
+    return resolveOptions() // Nothing saved yet
+  }
+}
+
+export const saveOptions = async (
+  optionsPath: string,
+  options: ConversionOptions
+): Promise<void> => {
+  await fs.writeFile(optionsPath, JSON.stringify(options, null, 2))
+}
@@ -0,0 +1,97 @@
+import fs from 'fs/promises'
+import path from 'path'
+import { CollisionPolicy, DirItem } from '../types'
+
+// Everything a naming template can refer to. relDirs are the folders between the imported root and the file
+type NamingContext = {
+  item: DirItem
+  relDirs: string[]
+  presetName: string
+  date: string // YYYY-MM-DD, the same for the whole batch
+}
+
+// Characters that can't appear in a file name on Windows - token values must not add folders either,
+// only the template itself may contain /
+const unsafeChars = /[<>:"|?*\\/]/g
+
+// Renders a template such as '{relpath}_{name}' into an output path relative to the output folder, without an
+// extension - the preset's container (or the input's extension for copies) is added later
+export const renderOutputName = (template: string, context: NamingContext): string => {
+  const { name, ext } = path.parse(context.item.path)
+  const tokens: Record<string, string> = {
+    name,
+    ext: ext.slice(1),
+    preset: context.presetName,
+    date: context.date,
+    width: context.item.media?.width?.toString() ?? '',
+    height: context.item.media?.height?.toString() ?? '',
+    relpath: context.relDirs.join('_')
+  }
+
+  const rendered = template.replace(/\{(\w+)\}/g, (_match, token: string) => {
+    if (!(token in tokens))
+      throw new Error(`Unknown token {${token}} in naming template '${template}'`)
+    return tokens[token].replace(unsafeChars, '_')
+  })
+
+  // Empty tokens ({relpath} at the top level, {width} of an audio file) leave stray separators behind
+  const segments = rendered
+    .split('/')
+    .map((segment) => segment.replace(/^[\s_-]+|[\s_-]+$/g, ''))
+    .filter((segment) => segment.length > 0)
+  return segments.length > 0 ? path.join(...segments) : name
+}
+
+const exists = async (filePath: string): Promise<boolean> => {
+  return fs.access(filePath).then(
+    () => true,
+    () => false
+  )
+}
+
+// Decides where an output goes when its file already exists on disk or was already claimed by another file of
+// this batch (photo.jpg and photo.png both become photo.avif). Returns the base path to use, null to skip the
+// file, or throws for the 'fail' policy. Paths claimed by this batch are never handed out twice. replacing is
+// the original an in-place output takes the place of - it is moved away before the output gets its name, so it
+// doesn't count as a collision
+export const resolveCollision = async (
+  basePath: string,
+  extension: string,
+  policy: CollisionPolicy,
+  claimed: Set<string>,
+  replacing?: string
+): Promise<string | null> => {
+  const taken = async (candidate: string): Promise<boolean> => {
+    const file = `${candidate}${extension}`
+    if (file === replacing) return claimed.has(file)
+    return claimed.has(file) || (await exists(file))
+  }
+
+  // Overwrite only applies to files that were there before the batch - two inputs of this batch are never
+  // encoded into one file, the later one gets a number
+  if (policy === 'overwrite') {
+    let candidate = basePath
+    for (let number = 1; claimed.has(`${candidate}${extension}`); number++) {
+      candidate = `${basePath} (${number})`
+    }
+    return candidate
+  }
+  if (!(await taken(basePath))) return basePath
+
+  switch (policy) {
+    case 'skip':
+      return null
+    case 'fail':
+      throw new Error(`Output already exists: ${basePath}${extension}`)
+    case 'auto-number': {
+      let number = 1
+      while (await taken(`${basePath} (${number})`)) number++
+      return `${basePath} (${number})`
+    }
+    default: {
+      // Unreachable for a CollisionPolicy - falling through would return undefined, which reads as 'skip'
+      const unknown: never = policy
+      throw new Error(`Unknown collision policy: ${unknown}`)
+    }
+  }
+}
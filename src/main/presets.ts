@@ -0,0 +1,200 @@
+import fs from 'fs/promises'
+import { ConversionPreset } from '../types'
+import { audioTargets } from './encoderOptions'
+
+// The 'default' preset is the recipe that used to be hardcoded in ffmpegUtils.ts - keep it that way
+// so batches converted before presets existed still come out the same
+const defaultPreset: ConversionPreset = {
+  name: 'default',
+  description: 'Balanced AV1/AVIF, mono MP3 audio, capped at 1080p',
+  stripPrivateMetadata: false,
+  video: {
+    codec: 'libsvtav1',
+    crf: 23,
+    encoderPreset: '6',
+    audioCodec: 'libmp3lame',
+    audioBitrate: '64k',
+    audioChannels: 1,
+    container: 'mp4',
+    maxWidth: 1920
+  },
+  audio: {
+    target: 'mp3',
+    bitrate: '64k',
+    quality: 0,
+    channels: 1,
+    sampleRate: 44100
+  },
+  image: {
+    codec: 'libsvtav1',
+    crf: 23,
+    encoderPreset: '6',
+    container: 'avif',
+    maxWidth: 1920,
+    animatedContainer: 'avif'
+  }
+}
+
+export const builtInPresets: ConversionPreset[] = [
+  defaultPreset,
+  {
+    name: 'archive',
+    description:
+      'High quality for long term storage, slower encode, keeps up to 4K, stereo Opus audio',
+    stripPrivateMetadata: false,
+    video: {
+      ...defaultPreset.video,
+      crf: 20,
+      encoderPreset: '4', // See zztodo measurements - preset 4 is ~15% smaller for twice the time
+      audioBitrate: '160k',
+      audioChannels: 2,
+      container: 'mkv',
+      maxWidth: 3840
+    },
+    audio: { target: 'opus', bitrate: '160k', channels: 2 },
+    image: { ...defaultPreset.image, crf: 18, encoderPreset: '4', maxWidth: 3840 }
+  },
+  {
+    name: 'web',
+    description: 'Small files for sharing online, 720p video, AAC audio, no location data',
+    stripPrivateMetadata: true, // These end up on the internet
+    video: {
+      ...defaultPreset.video,
+      crf: 30,
+      encoderPreset: '8',
+      audioCodec: 'aac',
+      audioBitrate: '96k',
+      audioChannels: 2,
+      maxWidth: 1280
+    },
+    audio: { target: 'aac', bitrate: '96k', channels: 2 },
+    image: { ...defaultPreset.image, crf: 30, encoderPreset: '8', maxWidth: 1600 }
+  },
+  {
+    name: 'phone',
+    description: 'Smallest files for mobile devices, 480p video, mono Opus audio',
+    stripPrivateMetadata: false,
+    video: {
+      ...defaultPreset.video,
+      crf: 34,
+      encoderPreset: '8',
+      audioCodec: 'aac',
+      audioBitrate: '64k',
+      maxWidth: 854
+    },
+    audio: { target: 'opus', bitrate: '48k', channels: 1 },
+    image: { ...defaultPreset.image, crf: 32, encoderPreset: '8', maxWidth: 1080 }
+  },
+  {
+    name: 'voice',
+    description: 'Podcasts and voice memos - mono Opus at an even loudness of -16 LUFS',
+    stripPrivateMetadata: false,
+    video: defaultPreset.video,
+    audio: { target: 'opus', bitrate: '32k', channels: 1, loudness: -16 },
+    image: defaultPreset.image
+  },
+  {
+    name: 'screenshots',
+    description: 'Lossless AVIF for screenshots and line art, animations become WebM',
+    stripPrivateMetadata: false,
+    video: defaultPreset.video,
+    audio: defaultPreset.audio,
+    image: { ...defaultPreset.image, lossless: true, animatedContainer: 'webm', maxWidth: 3840 }
+  }
+]
+
+// User presets only need to list what differs from 'default' (or from the preset they are based on)
+type UserPreset = {
+  name: string
+  description?: string
+  basedOn?: string
+  stripPrivateMetadata?: boolean
+  video?: Partial<ConversionPreset['video']>
+  audio?: Partial<ConversionPreset['audio']>
+  image?: Partial<ConversionPreset['image']>
+}
+
+// Reads the user presets file (a JSON array of UserPreset) and merges it with the built in ones.
+// A user preset with the same name as a built in one replaces it
+export const loadPresets = async (userPresetsPath?: string): Promise<ConversionPreset[]> => {
+  const presets = [...builtInPresets]
+  if (!userPresetsPath) return presets
+
+  let userPresets: UserPreset[]
+  try {
+    userPresets = JSON.parse(await fs.readFile(userPresetsPath, 'utf-8'))
+  } catch (err) {
+    // A missing file simply means no user presets - anything else is worth reporting
+    if (err instanceof Error && 'code' in err && err.code === 'ENOENT') return presets
+    throw new Error(`Could not read presets file ${userPresetsPath}: ${(err as Error).message}`)
+  }
+
+  if (!Array.isArray(userPresets)) {
+    throw new Error(`Presets file ${userPresetsPath} must contain an array of presets`)
+  }
+
+  for (const userPreset of userPresets) {
+    if (!userPreset.name) {
+      throw new Error(`Every preset in ${userPresetsPath} must have a name`)
+    }
+    const base = presets.find((p) => p.name === (userPreset.basedOn ?? 'default')) ?? defaultPreset
+    const merged: ConversionPreset = {
+      name: userPreset.name,
+      description: userPreset.description ?? `Based on ${base.name}`,
+      stripPrivateMetadata: userPreset.stripPrivateMetadata ?? base.stripPrivateMetadata,
+      video: { ...base.video, ...userPreset.video },
+      audio: { ...base.audio, ...userPreset.audio },
+      image: { ...base.image, ...userPreset.image }
+    }
+
+    if (!(merged.audio.target in audioTargets)) {
+      throw new Error(
+        `Preset '${merged.name}' has an unknown audio target '${merged.audio.target}', use one of: ${Object.keys(audioTargets).join(', ')}`
+      )
+    }
+
+    if (!['avif', 'webm'].includes(merged.image.animatedContainer)) {
+      throw new Error(
+        `Preset '${merged.name}' has an unknown animated image container '${merged.image.animatedContainer}', use avif or webm`
+      )
+    }
+
+    const existingIndex = presets.findIndex((p) => p.name === merged.name)
+    if (existingIndex === -1) {
+      presets.push(merged)
+    } else {
+      presets[existingIndex] = merged
+    }
+  }
+
+  return presets
+}
+
+export const getPreset = async (
+  name: string | undefined,
+  userPresetsPath?: string
+): Promise<ConversionPreset> => {
+  const presets = await loadPresets(userPresetsPath)
+  const preset = presets.find((p) => p.name === (name ?? 'default'))
+  if (!preset) {
+    throw new Error(`Unknown preset '${name}', available: ${presets.map((p) => p.name).join(', ')}`)
+  }
+  return preset
+}
+
+// Written when the user asks to edit presets and no file exists yet, so there is something to start from
+export const examplePresetsFile = JSON.stringify(
+  [
+    {
+      name: 'my-preset',
+      description: 'Example - change any field of the preset named in basedOn',
+      basedOn: 'default',
+      stripPrivateMetadata: true,
+      video: { crf: 26, maxWidth: 1280 },
+      audio: { target: 'opus', bitrate: '96k', channels: 2, loudness: -16 },
+      image: { crf: 28 }
+    }
+  ],
+  null,
+  2
+)
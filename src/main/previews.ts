@@ -0,0 +1,149 @@
+import crypto from 'crypto'
+import fs from 'fs/promises'
+import path from 'path'
+import ffmpeg from 'fluent-ffmpeg'
+import { ext } from '../types'
+
+// Preview images for the file tree: a poster frame for videos, a downscaled copy of images and a waveform
+// strip for audio. They're cached on disk keyed by path + mtime, so a changed file gets a new preview
+// and scrolling back up doesn't run ffmpeg again. The renderer gets them as data URLs over GET_PREVIEW.
+// The cache is trimmed to MAX_CACHE_BYTES, least recently shown previews first
+const PREVIEW_WIDTH = 320 // Big enough for the hover preview, the row shows it scaled down
+const WAVEFORM_SIZE = '320x80'
+const MAX_CONCURRENT_PREVIEWS = 2 // Previews must not slow down a running conversion
+const MAX_CACHE_BYTES = 200 * 1024 * 1024
+const PRUNE_EVERY = 100 // New previews between trims, the first one happens at startup
+
+let cacheDir: string | null = null
+let running = 0
+const waiting: (() => void)[] = []
+const inFlight = new Map<string, Promise<string | null>>() // A row scrolled in twice shares one ffmpeg run
+let renderedSincePrune = 0
+
+export const setPreviewCacheDir = (dirPath: string): void => {
+  cacheDir = dirPath
+  pruneCache()
+}
+
+// Cache hits touch their file, so the modification time says when a preview was last shown
+const pruneCache = async (): Promise<void> => {
+  if (!cacheDir) return
+  const dir = cacheDir
+  try {
+    const names = await fs.readdir(dir)
+    const files = await Promise.all(
+      names.map(async (name) => {
+        const filePath = path.join(dir, name)
+        const { size, mtimeMs } = await fs.stat(filePath)
+        return { filePath, size, mtimeMs }
+      })
+    )
+    let total = files.reduce((sum, file) => sum + file.size, 0)
+    for (const file of files.sort((a, b) => a.mtimeMs - b.mtimeMs)) {
+      if (total <= MAX_CACHE_BYTES) break
+      await fs.rm(file.filePath, { force: true })
+      total -= file.size
+    }
+  } catch (err) {
+    // No cache yet, or a file vanished meanwhile - the next trim catches up
+  }
+}
+
+// Simple semaphore - a folder with thousands of files would otherwise spawn thousands of ffmpegs at once
+const withPreviewSlot = async <T>(task: () => Promise<T>): Promise<T> => {
+  // Checked again after waking - a newcomer may have taken the freed slot before this waiter got to run
+  while (running >= MAX_CONCURRENT_PREVIEWS) {
+    await new Promise<void>((resolve) => waiting.push(resolve))
+  }
+  running++
+  try {
+    return await task()
+  } finally {
+    running--
+    waiting.shift()?.()
+  }
+}
+
+const runFfmpeg = (command: ReturnType<typeof ffmpeg>, outputFile: string): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    command
+      .output(outputFile)
+      .on('error', reject)
+      .on('end', () => resolve())
+      .run()
+  })
+}
+
+const renderPreview = async (
+  filePath: string,
+  type: ext,
+  durationSeconds: number | undefined,
+  outputFile: string
+): Promise<void> => {
+  const scale = `scale='min(${PREVIEW_WIDTH},iw)':-2`
+  switch (type) {
+    case 'video':
+      // 10% in skips black intros and fade-ins
+      return runFfmpeg(
+        ffmpeg(filePath)
+          .seekInput(durationSeconds ? durationSeconds * 0.1 : 0)
+          .outputOptions(['-frames:v', '1', '-vf', scale]),
+        outputFile
+      )
+    case 'image':
+      return runFfmpeg(ffmpeg(filePath).outputOptions(['-frames:v', '1', '-vf', scale]), outputFile)
+    case 'audio':
+      return runFfmpeg(
+        ffmpeg(filePath).outputOptions([
+          '-filter_complex',
+          `showwavespic=s=${WAVEFORM_SIZE}:colors=0x1677ff`,
+          '-frames:v',
+          '1'
+        ]),
+        outputFile
+      )
+  }
+}
+
+// Returns the preview as a data URL, or null if ffmpeg couldn't make one - the row keeps its icon then
+export const getPreview = async (
+  filePath: string,
+  type: ext,
+  durationSeconds?: number
+): Promise<string | null> => {
+  if (!cacheDir) throw new Error('Preview cache directory is not set')
+  const { mtimeMs } = await fs.stat(filePath)
+  const key = crypto.createHash('sha1').update(`${filePath}|${mtimeMs}`).digest('hex')
+  const cachedFile = path.join(cacheDir, `${key}.png`)
+
+  const existing = inFlight.get(key)
+  if (existing) return existing
+
+  const preview = (async (): Promise<string | null> => {
+    try {
+      const cached = await fs.readFile(cachedFile).catch(() => null)
+      if (cached) {
+        const now = new Date()
+        await fs.utimes(cachedFile, now, now).catch(() => {})
+        return `data:image/png;base64,${cached.toString('base64')}`
+      }
+
+      await fs.mkdir(cacheDir!, { recursive: true })
+      await withPreviewSlot(() => renderPreview(filePath, type, durationSeconds, cachedFile))
+      const rendered = await fs.readFile(cachedFile)
+      if (++renderedSincePrune >= PRUNE_EVERY) {
+        renderedSincePrune = 0
+        pruneCache()
+      }
+      return `data:image/png;base64,${rendered.toString('base64')}`
+    } catch (err) {
+      console.warn(`Could not create a preview for ${filePath}:`, (err as Error).message)
+      await fs.rm(cachedFile, { force: true })
+      return null
+    } finally {
+      inFlight.delete(key)
+    }
+  })()
+  inFlight.set(key, preview)
+  return preview
+}
@@ -0,0 +1,45 @@
+import bytes from 'bytes'
+import { DirItem, SkipPolicy } from '../types'
+
+// Returns why a file isn't worth converting, or null if it should be converted.
+// Files without probe details (older manifests, odd containers) are always converted
+export const skipReason = (
+  item: DirItem,
+  inputBytes: number,
+  policy: SkipPolicy
+): string | null => {
+  const media = item.media
+  if (!policy.enabled || !media) return null
+
+  const codec = item.ext === 'audio' ? media.audioCodec : media.videoCodec
+  if (codec && policy.codecs.includes(codec)) return `Already ${codec}`
+
+  if (inputBytes < policy.minSizeBytes) return `Smaller than ${bytes(policy.minSizeBytes)}`
+
+  const pixels = media.width && media.height ? media.width * media.height : 0
+  switch (item.ext) {
+    case 'video': {
+      if (!policy.videoBitsPerPixel || !pixels || !media.frameRate || !media.bitrate) break
+      const bitsPerPixel = media.bitrate / (pixels * media.frameRate)
+      if (bitsPerPixel < policy.videoBitsPerPixel) {
+        return `Already compact (${bitsPerPixel.toFixed(3)} bits/pixel)`
+      }
+      break
+    }
+    case 'image': {
+      if (!policy.imageBitsPerPixel || !pixels) break
+      const bitsPerPixel = (inputBytes * 8) / pixels
+      if (bitsPerPixel < policy.imageBitsPerPixel) {
+        return `Already compact (${bitsPerPixel.toFixed(2)} bits/pixel)`
+      }
+      break
+    }
+    case 'audio': {
+      if (!policy.audioKbps || !media.bitrate) break
+      const kbps = Math.round(media.bitrate / 1000)
+      if (kbps <= policy.audioKbps) return `Already low bitrate (${kbps} kb/s)`
+      break
+    }
+  }
+  return null
+}
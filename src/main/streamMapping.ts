@@ -0,0 +1,150 @@
+import { TrackAction, TrackActions, TrackInfo, VideoPresetSettings, VideoRate } from '../types'
+import { parseBitrate, targetVideoBitrate, videoEncoderOptions } from './encoderOptions'
+
+// Which streams of a video make it into the output. Without -map ffmpeg keeps one video and one audio stream
+// and nothing else, which loses commentary tracks, other languages and subtitles. Every track is kept unless
+// the user dropped it in the file view; subtitles are copied or converted to what the container can hold,
+// and dropped (with a log line) where that's impossible, e.g. picture based subtitles in mp4
+const textSubtitleCodecs = ['subrip', 'srt', 'ass', 'ssa', 'webvtt', 'mov_text', 'text']
+
+// Audio codecs the mp4 muxer takes as they are - anything else is converted even if copying was picked
+const mp4AudioCodecs = ['aac', 'mp3', 'ac3', 'eac3', 'opus', 'flac', 'alac']
+
+// The subtitle encoder for a track in this container, 'copy' to keep it as it is, null if it can't go in
+const subtitleCodecFor = (container: string, codec = ''): string | null => {
+  const isText = textSubtitleCodecs.includes(codec)
+  switch (container) {
+    case 'mkv':
+      return codec === 'mov_text' ? 'srt' : 'copy'
+    case 'mp4':
+    case 'mov':
+      return isText ? 'mov_text' : null
+    case 'webm':
+      return isText ? 'webvtt' : null
+    default:
+      return null
+  }
+}
+
+const canCopyAudio = (container: string, codec = ''): boolean => {
+  switch (container) {
+    case 'mkv':
+      return true
+    case 'mp4':
+    case 'mov':
+      return mp4AudioCodecs.includes(codec)
+    case 'webm':
+      return ['opus', 'vorbis'].includes(codec)
+    default:
+      return false
+  }
+}
+
+const actionOf = (track: TrackInfo, trackActions?: TrackActions): TrackAction =>
+  trackActions?.[track.index] ?? 'convert'
+
+// Files from job manifests written before tracks were probed get no mapping, ffmpeg's defaults apply then
+export const streamMappingOptions = (
+  inputPath: string,
+  tracks: TrackInfo[] | undefined,
+  trackActions: TrackActions | undefined,
+  settings: VideoPresetSettings
+): string[] => {
+  if (!tracks) return []
+
+  const options = ['-map', '0:V:0'] // The main video - V leaves out cover art
+  let audioOut = 0
+  let subtitleOut = 0
+  for (const track of tracks) {
+    const action = actionOf(track, trackActions)
+    if (action === 'drop') continue
+
+    if (track.type === 'audio') {
+      const copy = action === 'copy' && canCopyAudio(settings.container, track.codec)
+      if (action === 'copy' && !copy) {
+        console.log(
+          `Converting audio track ${track.index} of ${inputPath}, ${settings.container} can't hold ${track.codec}`
+        )
+      }
+      // Per output stream, so these override the preset's -c:a/-b:a/-ac for this track only
+      options.push('-map', `0:${track.index}`)
+      if (copy) {
+        options.push(`-c:a:${audioOut}`, 'copy')
+      } else {
+        const channels = Math.min(track.channels ?? settings.audioChannels, settings.audioChannels) // Never upmix
+        options.push(
+          `-c:a:${audioOut}`,
+          settings.audioCodec,
+          `-b:a:${audioOut}`,
+          settings.audioBitrate,
+          `-ac:a:${audioOut}`,
+          channels.toString()
+        )
+      }
+      audioOut++
+      continue
+    }
+
+    const codec = subtitleCodecFor(settings.container, track.codec)
+    if (!codec) {
+      console.log(
+        `Dropping subtitle track ${track.index} of ${inputPath}, ${settings.container} can't hold ${track.codec}`
+      )
+      continue
+    }
+    options.push('-map', `0:${track.index}`, `-c:s:${subtitleOut}`, codec)
+    subtitleOut++
+  }
+
+  // Fonts for styled (ASS) subtitles travel as attachments, only mkv has room for them
+  if (settings.container === 'mkv') options.push('-map', '0:t?', '-c:t', 'copy')
+  return options
+}
+
+// What the kept audio tracks add up to - target-size mode leaves the rest of the budget to the picture
+export const keptAudioBitrate = (
+  tracks: TrackInfo[] | undefined,
+  trackActions: TrackActions | undefined,
+  settings: VideoPresetSettings
+): number => {
+  const presetBitrate = parseBitrate(settings.audioBitrate)
+  if (!tracks) return presetBitrate // ffmpeg's default mapping keeps one audio track
+
+  return tracks
+    .filter((track) => track.type === 'audio' && actionOf(track, trackActions) !== 'drop')
+    .reduce((sum, track) => {
+      const copied =
+        actionOf(track, trackActions) === 'copy' && canCopyAudio(settings.container, track.codec)
+      return sum + (copied ? (track.bitrate ?? presetBitrate) : presetBitrate)
+    }, 0)
+}
+
+// The video bitrate of a target-size encode, undefined for CRF
+export const videoBitrateFor = (
+  videoRate: VideoRate,
+  durationSeconds: number | undefined,
+  tracks: TrackInfo[] | undefined,
+  trackActions: TrackActions | undefined,
+  settings: VideoPresetSettings
+): number | undefined =>
+  videoRate.mode === 'target-size'
+    ? targetVideoBitrate(
+        videoRate.targetBytes,
+        durationSeconds,
+        keptAudioBitrate(tracks, trackActions, settings)
+      )
+    : undefined
+
+// Codecs, quality, scaling and the tracks to keep - shared by the batch (ffmpegUtils.ts) and the samples of
+// testEncode.ts, so a sample encodes the same streams at the same rate as the conversion it stands in for
+export const videoStreamOptions = (
+  inputPath: string,
+  tracks: TrackInfo[] | undefined,
+  trackActions: TrackActions | undefined,
+  settings: VideoPresetSettings,
+  videoBitrate?: number
+): string[] => [
+  ...videoEncoderOptions(settings, videoBitrate),
+  // After the encoder options since they override them per track
+  ...streamMappingOptions(inputPath, tracks, trackActions, settings)
+]
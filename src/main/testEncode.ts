@@ -0,0 +1,260 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import ffmpeg from 'fluent-ffmpeg'
+import {
+  ConversionPreset,
+  ext,
+  ImageTraits,
+  TestEncodeResult,
+  TrackActions,
+  TrackInfo,
+  VideoRate
+} from '../types'
+import { audioEncoderOptions, getContainer, imageEncoderOptions } from './encoderOptions'
+import { probeFile } from './fileUtils'
+import { videoBitrateFor, videoStreamOptions } from './streamMapping'
+
+// Encodes a short piece of one file exactly like the batch would (same encoder options, tracks and passes),
+// then has ffmpeg compare it to the source. Meant for tuning presets without converting whole folders -
+// nothing is written next to the source, everything happens in a temp folder that is removed afterwards
+const SEGMENT_SECONDS = 6
+const SEGMENT_POSITION = 0.3 // Intros and credits are rarely representative, the middle third usually is
+const MAX_FRAME_WIDTH = 1920 // The comparison frames travel as data URLs, 4K PNGs would be huge
+
+const NULL_DEVICE = os.platform() === 'win32' ? 'NUL' : '/dev/null'
+
+let vmafAvailable: Promise<boolean> | null = null
+
+// Most distro builds of ffmpeg come without libvmaf - checked once, the filter list doesn't change
+const hasVmaf = (): Promise<boolean> => {
+  vmafAvailable ??= new Promise((resolve) => {
+    ffmpeg.getAvailableFilters((err, filters) => resolve(!err && 'libvmaf' in filters))
+  })
+  return vmafAvailable
+}
+
+// Resolves with ffmpeg's stderr - the metric filters only report there. track gets the command before it runs,
+// for callers that may have to kill it
+const run = (
+  command: ReturnType<typeof ffmpeg>,
+  track?: (command: ReturnType<typeof ffmpeg>) => void
+): Promise<string> => {
+  track?.(command)
+  return new Promise((resolve, reject) => {
+    command
+      .on('error', (err, _stdout, stderr) => reject(Object.assign(err, { stderr })))
+      .on('end', (_stdout, stderr) => resolve(stderr ?? ''))
+      .run()
+  })
+}
+
+const seekInput = (
+  command: ReturnType<typeof ffmpeg>,
+  start: number,
+  seconds?: number
+): ReturnType<typeof ffmpeg> => {
+  return seconds ? command.seekInput(start).duration(seconds) : command
+}
+
+// What the batch would know about the file and how it would encode it
+export type SegmentSource = {
+  videoRate: VideoRate
+  durationSeconds?: number // Of the whole file - target-size mode works out the bitrate from it
+  tracks?: TrackInfo[]
+  trackActions?: TrackActions
+  imageTraits?: ImageTraits
+}
+
+// Also used by the selection estimate (estimate.ts), which passes track to be able to cancel.
+// Pass logs are written next to outputFile
+export const encodeSegment = async (
+  filePath: string,
+  type: ext,
+  preset: ConversionPreset,
+  start: number,
+  seconds: number | undefined,
+  outputFile: string,
+  { videoRate, durationSeconds, tracks, trackActions, imageTraits }: SegmentSource,
+  track?: (command: ReturnType<typeof ffmpeg>) => void
+): Promise<void> => {
+  // Audio is converted in a single pass, cover art doesn't matter for the size
+  if (type === 'audio') {
+    await run(
+      seekInput(ffmpeg(filePath), start, seconds)
+        .outputOptions([...audioEncoderOptions(preset.audio), '-vn'])
+        .output(outputFile),
+      track
+    )
+    return
+  }
+
+  // Images take a single pass too
+  if (type === 'image') {
+    await run(
+      seekInput(ffmpeg(filePath), start, seconds)
+        .outputOptions(imageEncoderOptions(preset.image, imageTraits))
+        .output(outputFile),
+      track
+    )
+    return
+  }
+
+  const videoBitrate = videoBitrateFor(
+    videoRate,
+    durationSeconds,
+    tracks,
+    trackActions,
+    preset.video
+  )
+  const videoOptions = videoStreamOptions(
+    filePath,
+    tracks,
+    trackActions,
+    preset.video,
+    videoBitrate
+  )
+  // So do CRF videos
+  if (!videoBitrate) {
+    await run(
+      seekInput(ffmpeg(filePath), start, seconds).outputOptions(videoOptions).output(outputFile),
+      track
+    )
+    return
+  }
+
+  const options = [...videoOptions, '-passlogfile', `${outputFile}.passlog`]
+  await run(
+    seekInput(ffmpeg(filePath), start, seconds)
+      .outputOptions([...options, '-pass', '1', '-f', 'null'])
+      .output(NULL_DEVICE),
+    track
+  )
+  await run(
+    seekInput(ffmpeg(filePath), start, seconds)
+      .outputOptions([...options, '-pass', '2'])
+      .output(outputFile),
+    track
+  )
+}
+
+// The source is scaled to the encoded size, the metrics can only compare frames of equal size
+const compare = async (
+  encodedFile: string,
+  filePath: string,
+  start: number,
+  seconds: number | undefined,
+  width: number,
+  height: number
+): Promise<Pick<TestEncodeResult, 'ssim' | 'psnr' | 'vmaf'>> => {
+  const metrics = ['ssim', 'psnr', ...((await hasVmaf()) ? ['libvmaf'] : [])]
+  const split = (input: string, label: string): string =>
+    `${input}setpts=PTS-STARTPTS,format=yuv420p,split=${metrics.length}${metrics.map((_, i) => `[${label}${i}]`).join('')}`
+  const graph = [
+    split('[0:v]', 'enc'),
+    split(`[1:v]scale=${width}:${height}:flags=bicubic,`, 'ref'),
+    ...metrics.map((metric, i) => `[enc${i}][ref${i}]${metric}`) // libvmaf wants the encoded one first
+  ].join(';')
+
+  const stderr = await run(
+    seekInput(ffmpeg(encodedFile).input(filePath), start, seconds)
+      .complexFilter(graph)
+      .outputOptions(['-f', 'null'])
+      .output(NULL_DEVICE)
+  ).catch((err) => {
+    console.warn(`Could not compare ${filePath} to its test encode:`, err.message)
+    return ''
+  })
+
+  const match = (pattern: RegExp): number | null => {
+    const value = stderr.match(pattern)?.[1]
+    if (value === undefined) return null
+    return value === 'inf' ? Infinity : Number(value)
+  }
+  return {
+    ssim: match(/SSIM .*All:([\d.]+)/),
+    psnr: match(/PSNR .*average:([\d.]+|inf)/),
+    vmaf: match(/VMAF score[:=]\s*([\d.]+)/)
+  }
+}
+
+const extractFrame = async (
+  filePath: string,
+  at: number,
+  scale: string,
+  outputFile: string
+): Promise<string> => {
+  await run(
+    ffmpeg(filePath)
+      .seekInput(at)
+      .outputOptions(['-frames:v', '1', '-vf', `${scale}scale='min(${MAX_FRAME_WIDTH},iw)':-2`])
+      .output(outputFile)
+  )
+  return `data:image/png;base64,${(await fs.readFile(outputFile)).toString('base64')}`
+}
+
+export const runTestEncode = async (
+  filePath: string,
+  type: ext,
+  preset: ConversionPreset,
+  source: SegmentSource
+): Promise<TestEncodeResult> => {
+  const { durationSeconds, imageTraits } = source
+  if (type !== 'video' && type !== 'image') {
+    throw new Error('Test encodes compare pictures, only videos and images can be tested')
+  }
+
+  // Short videos are tested whole
+  const seconds =
+    type === 'video' && durationSeconds && durationSeconds > SEGMENT_SECONDS * 2
+      ? SEGMENT_SECONDS
+      : undefined
+  const start = seconds ? durationSeconds! * SEGMENT_POSITION : 0
+
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mediamagic-test-'))
+  try {
+    const encodedFile = path.join(tempDir, `encoded.${getContainer(type, preset, imageTraits)}`)
+    const startedAt = Date.now()
+    await encodeSegment(filePath, type, preset, start, seconds, encodedFile, source)
+    const encodeSeconds = (Date.now() - startedAt) / 1000
+
+    const stream = (await probeFile(encodedFile)).streams.find((s) => s.codec_type === 'video')
+    if (!stream?.width || !stream?.height) {
+      throw new Error('The test encode has no picture to compare')
+    }
+    const { width, height } = stream
+
+    const [metrics, sourceFrame, encodedFrame, { size: inputBytes }, { size: encodedBytes }] =
+      await Promise.all([
+        compare(encodedFile, filePath, start, seconds, width, height),
+        extractFrame(
+          filePath,
+          start + (seconds ?? 0) / 2,
+          `scale=${width}:${height}:flags=bicubic,`,
+          path.join(tempDir, 'source.png')
+        ),
+        extractFrame(encodedFile, (seconds ?? 0) / 2, '', path.join(tempDir, 'encoded.png')),
+        fs.stat(filePath),
+        fs.stat(encodedFile)
+      ])
+
+    // Assumes the bitrate is even across the file - good enough for a projection
+    const share = seconds ? seconds / durationSeconds! : 1
+    const sourceBytes = inputBytes * share
+    const sizeRatio = encodedBytes / sourceBytes
+    return {
+      segmentSeconds: seconds,
+      sourceBytes,
+      encodedBytes,
+      sizeRatio,
+      projectedBytes: inputBytes * sizeRatio,
+      encodeSeconds,
+      projectedEncodeSeconds: encodeSeconds / share,
+      ...metrics,
+      sourceFrame,
+      encodedFrame
+    }
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true })
+  }
+}
@@ -0,0 +1,305 @@
+import { watch, FSWatcher } from 'fs'
+import fs from 'fs/promises'
+import path from 'path'
+import { randomUUID } from 'crypto'
+import {
+  ConversionOptions,
+  ConversionPreset,
+  DirItem,
+  WatchActivityStatus,
+  WatchFolder,
+  WatchState
+} from '../types'
+import { convertExplorer, waitForBatch } from './ffmpegUtils'
+import { handleGetDetails, isValidExt } from './fileUtils'
+import { sendToRenderer } from './messaging'
+
+// Watch mode: new media in the registered folders is converted without anyone pressing Convert. A file is picked
+// up once it stops growing (cameras and screen recorders keep writing for a while), goes through the same probe
+// and batch as a manual selection, and is remembered so it's never converted twice - restarts included.
+// Files already in a folder when it's added are left alone, files that arrived while the app was closed or the
+// folder was switched off are caught up on
+const STABLE_INTERVAL_MS = 2000
+const STABLE_CHECKS = 3 // Size and modification time unchanged this many checks in a row
+const MAX_ACTIVITY = 200
+
+// Input paths per folder id that were queued, or were there before the folder was added
+type HandledPaths = Record<string, string[]>
+
+// The folder's batch settings - ipc.ts resolves the preset by name and loads the saved options
+export type WatchSettingsLoader = (
+  presetName: string
+) => Promise<{ preset: ConversionPreset; options: ConversionOptions }>
+
+let statePath: string | null = null
+let loadSettings: WatchSettingsLoader | null = null
+let state: WatchState = { folders: [], activity: [] }
+let handled = new Map<string, Set<string>>()
+let writeChain: Promise<void> = Promise.resolve() // Serializes writes, like the job manifest
+
+const watchers = new Map<string, FSWatcher>() // By folder id, only the enabled folders
+const settling = new Set<string>() // Files waiting to stop growing
+const ready = new Map<string, Set<string>>() // Stable files per folder id, waiting for their batch
+let draining = false
+
+const sleep = (ms: number): Promise<void> => new Promise((resolve) => setTimeout(resolve, ms))
+
+export const getWatchState = (): WatchState => state
+
+const saveState = (): Promise<void> => {
+  if (!statePath) return writeChain
+  const handledPaths: HandledPaths = Object.fromEntries(
+    [...handled].map(([id, paths]) => [id, [...paths]])
+  )
+  const snapshot = JSON.stringify({ ...state, handled: handledPaths }, null, 2)
+  const target = statePath
+
+  writeChain = writeChain
+    .then(async () => {
+      await fs.writeFile(`${target}.tmp`, snapshot)
+      await fs.rename(`${target}.tmp`, target)
+    })
+    .catch((err) => console.error('Error writing watch folders:', err))
+  return writeChain
+}
+
+// Saves and tells the watch folders view
+const publish = async (): Promise<void> => {
+  await saveState()
+  sendToRenderer('WATCH_UPDATED', state)
+}
+
+const setActivity = (
+  folderId: string,
+  inputPath: string,
+  status: WatchActivityStatus,
+  message?: string
+): void => {
+  const others = state.activity.filter((a) => a.folderId !== folderId || a.inputPath !== inputPath)
+  const entry = { folderId, inputPath, status, at: new Date().toISOString(), message }
+  state = { ...state, activity: [entry, ...others].slice(0, MAX_ACTIVITY) }
+}
+
+const isHandled = (folderId: string, filePath: string): boolean =>
+  handled.get(folderId)?.has(filePath) ?? false
+
+const markHandled = (folderId: string, filePaths: string[]): void => {
+  const paths = handled.get(folderId) ?? new Set<string>()
+  filePaths.forEach((filePath) => paths.add(filePath))
+  handled.set(folderId, paths)
+}
+
+// The same extensions a manual selection picks up. Folders with a media-like name are weeded out by settle
+const listMediaFiles = async (dir: string): Promise<string[]> => {
+  const entries = await fs.readdir(dir, { recursive: true })
+  return entries.map((entry) => path.join(dir, entry)).filter((entry) => isValidExt(entry) !== null)
+}
+
+// The batch recreates subfolders of the watched folder in the output folder, like it does for a selected folder
+const nestUnder = (rootDir: string, files: DirItem[]): DirItem[] => {
+  const root: DirItem[] = []
+  for (const file of files) {
+    let level = root
+    let dirPath = rootDir
+    const relDirs = path.relative(rootDir, path.dirname(file.path)).split(path.sep).filter(Boolean)
+    for (const name of relDirs) {
+      dirPath = path.join(dirPath, name)
+      let folder = level.find((item) => item.type === 'folder' && item.name === name)
+      if (!folder) {
+        folder = { path: dirPath, name, type: 'folder', size: '', isExpanded: false, children: [] }
+        level.push(folder)
+      }
+      level = folder.children!
+    }
+    level.push(file)
+  }
+  return root
+}
+
+// Outputs never go next to the sources (they'd show up as new files), and one bad file mustn't stop the batch -
+// a stopped batch removes its output folder, which here holds everything converted before
+const watchOptions = (options: ConversionOptions): ConversionOptions => ({
+  ...options,
+  inPlace: { ...options.inPlace, enabled: false },
+  errorPolicy: { ...options.errorPolicy, continueOnError: true }
+})
+
+const runBatch = async (folder: WatchFolder, files: string[]): Promise<void> => {
+  // Recorded before converting - a batch interrupted by quitting is offered for resuming like any other
+  markHandled(folder.id, files)
+  files.forEach((filePath) => setActivity(folder.id, filePath, 'queued'))
+  await publish()
+
+  try {
+    const { preset, options } = await loadSettings!(folder.presetName)
+    const items = await handleGetDetails(null, files) // Files ffprobe can't read are left out
+    const probed = new Set(items.map((item) => item.path))
+    files
+      .filter((filePath) => !probed.has(filePath))
+      .forEach((filePath) =>
+        setActivity(folder.id, filePath, 'failed', 'Not a readable media file')
+      )
+    if (items.length === 0) return
+
+    const explorer = nestUnder(folder.inputDir, items)
+    // Waits for a running batch, a manual one included
+    await convertExplorer(explorer, folder.outputDir, preset, watchOptions(options), true)
+    const outcome = await waitForBatch()
+
+    for (const item of items) {
+      const failure = outcome?.failures.find((f) => f.inputPath === item.path)
+      const skipped = outcome?.skipped[item.path]
+      if (failure) setActivity(folder.id, item.path, 'failed', failure.message)
+      else if (skipped !== undefined) setActivity(folder.id, item.path, 'skipped', skipped)
+      else setActivity(folder.id, item.path, outcome ? 'converted' : 'interrupted')
+    }
+  } catch (err) {
+    console.error(`Watch folder batch for ${folder.inputDir} failed:`, err)
+    files.forEach((filePath) => setActivity(folder.id, filePath, 'failed', (err as Error).message))
+  } finally {
+    await publish()
+  }
+}
+
+// One batch at a time, folder by folder - a manual batch that's running is waited for
+const drain = async (): Promise<void> => {
+  if (draining) return
+  draining = true
+  try {
+    while (ready.size > 0) {
+      const [folderId, files] = ready.entries().next().value as [string, Set<string>]
+      ready.delete(folderId)
+      const folder = state.folders.find((f) => f.id === folderId)
+      if (folder?.enabled) await runBatch(folder, [...files])
+    }
+  } finally {
+    draining = false
+  }
+}
+
+const settle = async (folder: WatchFolder, filePath: string): Promise<void> => {
+  if (settling.has(filePath) || isHandled(folder.id, filePath)) return
+  settling.add(filePath)
+  try {
+    let last = ''
+    let stableChecks = 0
+    while (stableChecks < STABLE_CHECKS) {
+      await sleep(STABLE_INTERVAL_MS)
+      if (!watchers.has(folder.id)) return // Switched off or removed meanwhile
+      const stats = await fs.stat(filePath).catch(() => null)
+      if (!stats?.isFile()) return // Deleted, moved on, or a folder
+      const current = `${stats.size}:${stats.mtimeMs}`
+      stableChecks = current === last && stats.size > 0 ? stableChecks + 1 : 0
+      last = current
+    }
+  } finally {
+    settling.delete(filePath)
+  }
+
+  ready.set(folder.id, (ready.get(folder.id) ?? new Set<string>()).add(filePath))
+  drain()
+}
+
+const onChange = async (folder: WatchFolder, filePath: string): Promise<void> => {
+  if (isValidExt(filePath)) return settle(folder, filePath)
+  // A folder moved in as a whole doesn't always report its files one by one
+  const stats = await fs.stat(filePath).catch(() => null)
+  if (stats?.isDirectory()) {
+    const files = await listMediaFiles(filePath).catch(() => [])
+    files.forEach((file) => settle(folder, file))
+  }
+}
+
+const startWatching = async (folder: WatchFolder, isNew = false): Promise<void> => {
+  const existing = await listMediaFiles(folder.inputDir)
+  if (isNew) markHandled(folder.id, existing)
+
+  const watcher = watch(folder.inputDir, { recursive: true }, (_event, filename) => {
+    if (filename) onChange(folder, path.join(folder.inputDir, filename.toString()))
+  })
+  watcher.on('error', (err) => {
+    console.error(`Stopped watching ${folder.inputDir}:`, err.message)
+    stopWatching(folder.id)
+  })
+  watchers.set(folder.id, watcher)
+
+  // Whatever arrived while the app was closed or the folder was switched off
+  existing.forEach((filePath) => settle(folder, filePath))
+}
+
+const stopWatching = (folderId: string): void => {
+  watchers.get(folderId)?.close()
+  watchers.delete(folderId)
+  ready.delete(folderId)
+}
+
+// Called once by ipc.ts - picks up the folders saved by the last run
+export const initWatchFolders = async (
+  filePath: string,
+  loader: WatchSettingsLoader
+): Promise<void> => {
+  statePath = filePath
+  loadSettings = loader
+  try {
+    const saved: WatchState & { handled?: HandledPaths } = JSON.parse(
+      await fs.readFile(filePath, 'utf-8')
+    )
+    state = { folders: saved.folders ?? [], activity: saved.activity ?? [] }
+    handled = new Map(
+      Object.entries(saved.handled ?? {}).map(([id, paths]) => [id, new Set(paths)])
+    )
+  } catch (err) {
+    return // Missing or broken file simply means no watch folders
+  }
+
+  for (const folder of state.folders.filter((f) => f.enabled)) {
+    await startWatching(folder).catch((err) =>
+      console.error(`Could not watch ${folder.inputDir}:`, err.message)
+    )
+  }
+}
+
+export const addWatchFolder = async ({
+  inputDir,
+  outputDir,
+  presetName
+}: Pick<WatchFolder, 'inputDir' | 'outputDir' | 'presetName'>): Promise<WatchState> => {
+  const relOutput = path.relative(inputDir, outputDir)
+  if (!relOutput.startsWith('..') && !path.isAbsolute(relOutput)) {
+    throw new Error('The output folder must not be inside the watched folder')
+  }
+  if (state.folders.some((f) => f.inputDir === inputDir)) {
+    throw new Error(`${inputDir} is already watched`)
+  }
+
+  const folder: WatchFolder = { id: randomUUID(), inputDir, outputDir, presetName, enabled: true }
+  await startWatching(folder, true)
+  state = { ...state, folders: [...state.folders, folder] }
+  await publish()
+  return state
+}
+
+export const setWatchFolderEnabled = async (id: string, enabled: boolean): Promise<WatchState> => {
+  const folder = state.folders.find((f) => f.id === id)
+  if (!folder) throw new Error('Unknown watch folder')
+
+  if (enabled && !watchers.has(id)) await startWatching(folder)
+  if (!enabled) stopWatching(id)
+  state = {
+    ...state,
+    folders: state.folders.map((f) => (f.id === id ? { ...f, enabled } : f))
+  }
+  await publish()
+  return state
+}
+
+export const removeWatchFolder = async (id: string): Promise<WatchState> => {
+  stopWatching(id)
+  handled.delete(id)
+  state = {
+    folders: state.folders.filter((f) => f.id !== id),
+    activity: state.activity.filter((a) => a.folderId !== id)
+  }
+  await publish()
+  return state
+}
@@ -1,11 +1,13 @@
 import FileView from './comps/FileView'
 import ActionPane from './comps/ActionPane'
+import ResumeJobsModal from './comps/ResumeJobsModal'
 
 export default function App(): JSX.Element {
   return (
     <div className="w-screen h-screen">
       <FileView />
       <ActionPane />
+      <ResumeJobsModal />
     </div>
   )
 }
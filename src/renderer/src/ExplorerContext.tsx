@@ -7,6 +7,9 @@ const ExplorerContext = createContext<ExplorerContextType | undefined>(undefined
 export const ExplorerProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [explorer, setExplorer] = useState<DirItem[]>([])
   const [convertClicked, setConvertClicked] = useState<boolean>(false)
+  const [conversionPaused, setConversionPaused] = useState<boolean>(false)
+  const [presetName, setPresetName] = useState<string>('default') // Shared by Convert and the per-file test encode
+  const [scanning, setScanning] = useState<boolean>(false) // Convert waits until the whole selection is there
 
   // Function to recursively collapse all subfolders and handle null values
   const collapseAll = (items: DirItem[]): DirItem[] => {
@@ -95,7 +98,20 @@ export const ExplorerProvider: React.FC<{ children: React.ReactNode }> = ({ chil
 
   return (
     <ExplorerContext.Provider
-      value={{ explorer, setExplorer, convertClicked, setConvertClicked, expandFolder, deleteItem }}
+      value={{
+        explorer,
+        setExplorer,
+        convertClicked,
+        setConvertClicked,
+        conversionPaused,
+        setConversionPaused,
+        presetName,
+        setPresetName,
+        scanning,
+        setScanning,
+        expandFolder,
+        deleteItem
+      }}
     >
       {children}
     </ExplorerContext.Provider>
@@ -1,5 +1,6 @@
 import { notification } from 'antd'
 import { InfoCircleOutlined, CheckCircleOutlined, CloseCircleOutlined } from '@ant-design/icons'
+import { ScanError } from '../../types'
 
 // Config 'no selected files' notification
 export const showSelectedFilesNotification = (): void => {
@@ -13,6 +14,35 @@ export const showSelectedFilesNotification = (): void => {
   })
 }
 
+// Paths the scan couldn't read, the first few by name
+export const showScanErrorsNotification = (errors: ScanError[]): void => {
+  notification.warning({
+    message: 'Some Files Could Not Be Read',
+    description: (
+      <>
+        {errors.slice(0, 5).map((error) => (
+          <div key={error.path}>
+            {error.path}: {error.message}
+          </div>
+        ))}
+        {errors.length > 5 && <div>And {errors.length - 5} more (see the log)</div>}
+      </>
+    ),
+    placement: 'topRight',
+    duration: 0 // Stays until closed, there may be a lot to read
+  })
+}
+
+export const showScanStoppedNotification = (foundCount: number): void => {
+  notification.info({
+    message: 'Scan Stopped',
+    description: `${foundCount} media file(s) found until then were loaded, the rest was not scanned.`,
+    icon: <InfoCircleOutlined style={{ color: '#1890ff' }} />,
+    placement: 'topRight',
+    duration: 5
+  })
+}
+
 export const showConversionSuccessNotification = (): void => {
   notification.success({
     message: 'Conversion Completed',
@@ -23,6 +53,15 @@ export const showConversionSuccessNotification = (): void => {
   })
 }
 
+export const showConversionFailuresNotification = (failedCount: number): void => {
+  notification.warning({
+    message: 'Conversion Finished With Errors',
+    description: `${failedCount} file(s) could not be converted, the rest were converted successfully.`,
+    placement: 'topRight',
+    duration: 10
+  })
+}
+
 export const showConversionStoppedNotification = (): void => {
   notification.info({
     message: 'Stopping Conversion',
@@ -43,6 +82,17 @@ export const showConversionErrorNotification = (filename: string, errorMessage:
   })
 }
 
+export const showConversionNotStartedNotification = (errorMessage: string): void => {
+  notification.error({
+    message: 'Conversion Not Started',
+    // Electron prefixes errors thrown by ipcMain handlers with the channel name
+    description: errorMessage.replace(/^Error invoking remote method '[^']+': (Error: )?/, ''),
+    icon: <CloseCircleOutlined style={{ color: '#ff4d4f' }} />,
+    placement: 'topRight',
+    duration: 10
+  })
+}
+
 export const showEmptyFolderNotification = (): void => {
   notification.info({
     message: 'Empty Folder',
@@ -52,3 +102,16 @@ export const showEmptyFolderNotification = (): void => {
     duration: 10
   })
 }
+
+export const showDuplicatesFoundNotification = (duplicates: number, similar: number): void => {
+  notification.info({
+    message: duplicates + similar > 0 ? 'Duplicates Found' : 'No Duplicates',
+    description:
+      duplicates + similar > 0
+        ? `${duplicates} file(s) are copies of another selected file and get its converted file instead of being converted again.${similar > 0 ? ` ${similar} image(s) look like another one, they are marked but still converted.` : ''}`
+        : 'Every selected file is unique.',
+    icon: <InfoCircleOutlined style={{ color: '#1890ff' }} />,
+    placement: 'topRight',
+    duration: 10
+  })
+}
@@ -1,17 +1,98 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
+import bytes from 'bytes'
 import { cloneDeep } from 'lodash'
 import { useExplorer } from '../ExplorerContext'
-import { Button, Input, Progress } from 'antd'
+import { Button, Checkbox, Input, Progress, Select } from 'antd'
+import { IpcRendererEvent } from 'electron'
+import {
+  BatchProgress,
+  ConversionOptions,
+  ConversionPreset,
+  DirItem,
+  DuplicateGroup,
+  FailedItem,
+  SelectionEstimate
+} from '../../../types'
+import { formatBatchProgress, formatDuration } from '../../../format'
 import {
   showSelectedFilesNotification,
   showConversionStoppedNotification,
-  showConversionSuccessNotification
+  showConversionSuccessNotification,
+  showConversionFailuresNotification,
+  showConversionNotStartedNotification,
+  showDuplicatesFoundNotification
 } from '../Notifications'
+import OptionsModal from './OptionsModal'
+import FailureReportModal from './FailureReportModal'
+import UndoInPlaceModal from './UndoInPlaceModal'
+import WatchFoldersModal from './WatchFoldersModal'
+import HistoryModal from './HistoryModal'
+
+// Media files only, the same files a conversion would pick up
+const mediaTotals = (items: DirItem[]): { files: number; bytes: number } =>
+  items.reduce(
+    (totals, item) => {
+      if (item.type === 'folder') {
+        const children = mediaTotals(item.children ?? [])
+        return { files: totals.files + children.files, bytes: totals.bytes + children.bytes }
+      }
+      return { files: totals.files + 1, bytes: totals.bytes + (item.sizeBytes ?? 0) }
+    },
+    { files: 0, bytes: 0 }
+  )
+
+// The first file of a group is converted, exact copies of it get its output - similar images are only marked
+const markDuplicates = (items: DirItem[], groups: DuplicateGroup[]): DirItem[] => {
+  const marks = new Map<string, Partial<DirItem>>()
+  for (const group of groups) {
+    for (const path of group.paths.slice(1)) {
+      marks.set(
+        path,
+        group.kind === 'exact' ? { duplicateOf: group.paths[0] } : { similarTo: group.paths[0] }
+      )
+    }
+  }
+  const mark = (list: DirItem[]): DirItem[] =>
+    list.map((item) =>
+      item.children
+        ? { ...item, children: mark(item.children) }
+        : { ...item, duplicateOf: undefined, similarTo: undefined, ...marks.get(item.path) }
+    )
+  return mark(items)
+}
+
+const formatEstimate = (estimate: SelectionEstimate): string => {
+  const savedPercent = (1 - estimate.projectedBytes / Math.max(1, estimate.inputBytes)) * 100
+  return `→ ~${bytes(Math.round(estimate.projectedBytes))} (${savedPercent.toFixed(0)}% smaller) in ~${formatDuration(estimate.projectedEncodeSeconds)}`
+}
 
 export default function ActionPane(): JSX.Element {
   const [outputDir, setOutputDir] = useState<string>('C:\\Users\\user\\Desktop')
+  const [presets, setPresets] = useState<ConversionPreset[]>([])
+  const [options, setOptions] = useState<ConversionOptions>()
+  const [optionsOpen, setOptionsOpen] = useState<boolean>(false)
+  const [undoOpen, setUndoOpen] = useState<boolean>(false)
+  const [watchOpen, setWatchOpen] = useState<boolean>(false)
+  const [historyOpen, setHistoryOpen] = useState<boolean>(false)
+  const [failures, setFailures] = useState<FailedItem[]>([])
+  const [batchProgress, setBatchProgress] = useState<BatchProgress>()
+  const [estimate, setEstimate] = useState<SelectionEstimate>()
+  const [estimating, setEstimating] = useState<boolean>(false)
+  const estimateRun = useRef<number>(0) // A result for an older selection is dropped
+  const [findingDuplicates, setFindingDuplicates] = useState<boolean>(false)
+  const [similarImages, setSimilarImages] = useState<boolean>(false)
 
-  const { explorer, setExplorer, convertClicked, setConvertClicked } = useExplorer()
+  const {
+    explorer,
+    setExplorer,
+    convertClicked,
+    setConvertClicked,
+    conversionPaused,
+    setConversionPaused,
+    presetName,
+    setPresetName,
+    scanning
+  } = useExplorer()
 
   // Called if the output path is changed
   const handleSelectOutputDir = async (): Promise<void> => {
@@ -19,32 +100,135 @@ export default function ActionPane(): JSX.Element {
     setOutputDir(res)
   }
 
+  // Presets are re-read every time the dropdown opens so edits to the presets file show up without a restart
+  const loadPresets = async (): Promise<void> => {
+    const res: ConversionPreset[] = await window.electron.ipcRenderer.invoke('GET_PRESETS')
+    setPresets(res)
+  }
+
+  useEffect(() => {
+    loadPresets()
+    const loadOptions = async (): Promise<void> => {
+      setOptions(await window.electron.ipcRenderer.invoke('GET_OPTIONS'))
+    }
+    loadOptions()
+  }, [])
+
+  // Any change to what would be converted makes the estimate stale - one still running is stopped too,
+  // its sample encodes would keep the CPU busy for nothing
+  useEffect(() => {
+    if (estimating) window.electron.ipcRenderer.invoke('CANCEL_ESTIMATE')
+    estimateRun.current++
+    setEstimate(undefined)
+    setEstimating(false)
+  }, [explorer, presetName, options])
+
+  // Encodes a few samples in the main process, which takes a while for big selections
+  const handleEstimate = async (): Promise<void> => {
+    const run = ++estimateRun.current
+    setEstimating(true)
+    try {
+      const res: SelectionEstimate = await window.electron.ipcRenderer.invoke(
+        'ESTIMATE_SELECTION',
+        { explorer: cloneDeep(explorer), presetName, options }
+      )
+      if (run === estimateRun.current) setEstimate(res)
+    } catch (err) {
+      console.error('Could not estimate the selection:', err)
+    } finally {
+      if (run === estimateRun.current) setEstimating(false)
+    }
+  }
+
+  // Hashes the selection in the main process - only files of equal size are read
+  const handleFindDuplicates = async (): Promise<void> => {
+    setFindingDuplicates(true)
+    try {
+      const groups: DuplicateGroup[] = await window.electron.ipcRenderer.invoke('FIND_DUPLICATES', {
+        explorer: cloneDeep(explorer),
+        similarImages
+      })
+      setExplorer((prevExplorer) => markDuplicates(prevExplorer, groups))
+      const count = (kind: DuplicateGroup['kind']): number =>
+        groups.filter((g) => g.kind === kind).reduce((sum, g) => sum + g.paths.length - 1, 0)
+      showDuplicatesFoundNotification(count('exact'), count('similar'))
+    } catch (err) {
+      console.error('Could not look for duplicates:', err)
+    } finally {
+      setFindingDuplicates(false)
+    }
+  }
+
+  const totals = mediaTotals(explorer)
+
+  // Options are saved right away so they're the same next time the app starts
+  const handleSaveOptions = async (newOptions: ConversionOptions): Promise<void> => {
+    setOptions(newOptions)
+    setOptionsOpen(false)
+    await window.electron.ipcRenderer.invoke('SAVE_OPTIONS', newOptions)
+  }
+
   // Called if the CONVERT button is clicked
   const handleConvertExplorer = async (): Promise<void> => {
     // Explorer must be cloned to ensure clean data transmission between processes
     // State objects may contain non-serializable properties that would break IPC
-    if (explorer.length > 0 && outputDir.length > 0) {
+    // In place mode writes next to the sources, so it doesn't need an output folder
+    if (explorer.length > 0 && (outputDir.length > 0 || options?.inPlace.enabled)) {
       setConvertClicked(true) // To modify UI
+      setBatchProgress(undefined) // Until the main process reports the new batch
       const clonedExplorer = cloneDeep(explorer) // Properly cloning the explorer
-      const props = { explorer: clonedExplorer, outputDir } // Create props object with cloned explorer
+      const props = { explorer: clonedExplorer, outputDir, presetName, options } // Create props object with cloned explorer
       console.log('about to convert ', props)
-      await window.electron.ipcRenderer.invoke('CONVERT_EXPLORER', props)
+      try {
+        await window.electron.ipcRenderer.invoke('CONVERT_EXPLORER', props)
+      } catch (err) {
+        // The batch never started, e.g. the 'fail' collision policy found an existing output
+        setConvertClicked(false)
+        showConversionNotStartedNotification((err as Error).message)
+      }
     } else {
       showSelectedFilesNotification() // Notify the user if an empty folder was selected
     }
   }
 
   useEffect(() => {
-    const handleConversionComplete = (): void => {
+    const handleConversionComplete = (_event: IpcRendererEvent, failures: FailedItem[]): void => {
       console.log('detected CONVERSION_COMPLETE from front')
       setExplorer([]) // Clear state and UI
       setConvertClicked(false) // Reset loading bar
-      showConversionSuccessNotification() // Show notification
+      setConversionPaused(false)
+      // Files that failed while continuing on error are listed in the report
+      if (failures.length > 0) {
+        setFailures(failures)
+        showConversionFailuresNotification(failures.length)
+      } else {
+        showConversionSuccessNotification() // Show notification
+      }
+    }
+    // Also sent when a failed file stops the whole batch, not only when Stop is clicked
+    const handleConversionStopped = (): void => {
+      setConvertClicked(false)
+      setConversionPaused(false)
     }
+    // The main process confirms pause/resume, so the buttons only flip once it actually happened
+    const handleBatchProgress = (_event: IpcRendererEvent, progress: BatchProgress): void => {
+      setBatchProgress(progress)
+    }
+    const handleConversionPaused = (): void => setConversionPaused(true)
+    const handleConversionResumed = (): void => setConversionPaused(false)
+
     window.electron.ipcRenderer.on('CONVERSION_COMPLETE', handleConversionComplete)
+    window.electron.ipcRenderer.on('CONVERSION_STOPPED', handleConversionStopped)
+    window.electron.ipcRenderer.on('BATCH_PROGRESS', handleBatchProgress)
+    window.electron.ipcRenderer.on('CONVERSION_PAUSED', handleConversionPaused)
+    window.electron.ipcRenderer.on('CONVERSION_RESUMED', handleConversionResumed)
 
     return (): void => {
       window.electron.ipcRenderer.removeListener('CONVERSION_COMPLETE', handleConversionComplete)
+      window.electron.ipcRenderer.removeListener('CONVERSION_STOPPED', handleConversionStopped)
+      window.electron.ipcRenderer.removeListener('BATCH_PROGRESS', handleBatchProgress)
+      window.electron.ipcRenderer.removeListener('CONVERSION_PAUSED', handleConversionPaused)
+      window.electron.ipcRenderer.removeListener('CONVERSION_RESUMED', handleConversionResumed)
     }
   }, [])
 
@@ -52,6 +236,7 @@ export default function ActionPane(): JSX.Element {
   const stopAllFFmpegProcesses = async (): Promise<void> => {
     await window.electron.ipcRenderer.invoke('STOP_ALL_FFMPEG_PROCESSES')
     setConvertClicked(false)
+    setConversionPaused(false)
     showConversionStoppedNotification()
   }
 
@@ -60,16 +245,30 @@ export default function ActionPane(): JSX.Element {
       {convertClicked ? (
         <div className="w-full h-[7%] px-3 bg-gray-900 flex flex-row justify-between items-center">
           <Progress
-            percent={100}
-            status="active"
+            percent={batchProgress?.percent ?? 0}
+            status={conversionPaused ? 'normal' : 'active'}
             showInfo={false}
             strokeWidth={24} // This controls the thickness
             strokeColor={{
               '0%': '#108ee9',
               '100%': '#87d068'
             }}
-            style={{ width: '92%' }} // Control the width this way
+            style={{ width: '58%' }} // Control the width this way
           />
+          <span className="w-[27%] text-white font-bold text-center truncate">
+            {batchProgress ? formatBatchProgress(batchProgress) : 'Preparing...'}
+          </span>
+          <Button
+            size="large"
+            onClick={() =>
+              window.electron.ipcRenderer.invoke(
+                conversionPaused ? 'RESUME_CONVERSION' : 'PAUSE_CONVERSION'
+              )
+            }
+            className="bg-yellow-600 border-white text-white flex justify-center items-center h-[40px] w-[6%] font-bold"
+          >
+            {conversionPaused ? 'Resume' : 'Pause'}
+          </Button>
           <Button
             type="primary"
             danger
@@ -108,15 +307,109 @@ export default function ActionPane(): JSX.Element {
                 />
               </div>
             </div>
+            {totals.files > 0 && (
+              <>
+                <span className="text-white font-bold whitespace-nowrap">
+                  {totals.files} files · {bytes(totals.bytes)}{' '}
+                  {estimate && formatEstimate(estimate)}
+                </span>
+                <Button
+                  onClick={handleEstimate}
+                  loading={estimating}
+                  disabled={scanning}
+                  title="Encodes a few samples to project the output size and the time converting takes"
+                  className="bg-gray-600 transition-colors duration-500 text-white text-lg font-bold px-5 py-4"
+                >
+                  Estimate
+                </Button>
+                <Button
+                  onClick={handleFindDuplicates}
+                  loading={findingDuplicates}
+                  disabled={scanning}
+                  title="Finds files that are copies of each other, only one copy is converted"
+                  className="bg-gray-600 transition-colors duration-500 text-white text-lg font-bold px-5 py-4"
+                >
+                  Find Duplicates
+                </Button>
+                <Checkbox
+                  checked={similarImages}
+                  onChange={(e) => setSimilarImages(e.target.checked)}
+                  className="text-white whitespace-nowrap"
+                >
+                  Similar images too
+                </Checkbox>
+              </>
+            )}
+          </div>
+          <div className="flex flex-row items-center gap-4">
+            <Select
+              value={presetName}
+              onChange={setPresetName}
+              onDropdownVisibleChange={(open) => open && loadPresets()}
+              options={presets.map((preset) => ({
+                value: preset.name,
+                label: <span title={preset.description}>{preset.name}</span>
+              }))}
+              size="large"
+              className="w-[180px]"
+            />
+            <Button
+              onClick={() => setOptionsOpen(true)}
+              disabled={!options}
+              className="bg-gray-600 transition-colors duration-500 text-white text-lg font-bold px-5 py-4"
+            >
+              Options
+            </Button>
+            <Button
+              onClick={() => {
+                loadPresets() // The modal picks a preset per folder
+                setWatchOpen(true)
+              }}
+              className="bg-gray-600 transition-colors duration-500 text-white text-lg font-bold px-5 py-4"
+            >
+              Watch Folders
+            </Button>
+            <Button
+              onClick={() => setHistoryOpen(true)}
+              className="bg-gray-600 transition-colors duration-500 text-white text-lg font-bold px-5 py-4"
+            >
+              History
+            </Button>
+            <Button
+              onClick={() => setUndoOpen(true)}
+              className="bg-gray-600 transition-colors duration-500 text-white text-lg font-bold px-5 py-4"
+            >
+              Undo In-Place
+            </Button>
+            <Button
+              onClick={() => window.electron.ipcRenderer.invoke('OPEN_PRESETS_FILE')}
+              className="bg-gray-600 transition-colors duration-500 text-white text-lg font-bold px-5 py-4"
+            >
+              Edit Presets
+            </Button>
+            <Button
+              onClick={handleConvertExplorer}
+              disabled={scanning}
+              title={scanning ? 'Wait for the scan to finish' : undefined}
+              className="bg-green-600 transition-colors duration-500 text-white text-lg font-bold px-5 py-4"
+            >
+              Convert
+            </Button>
           </div>
-          <Button
-            onClick={handleConvertExplorer}
-            className="bg-green-600 transition-colors duration-500 text-white text-lg font-bold px-5 py-4"
-          >
-            Convert
-          </Button>
         </div>
       )}
+      {options && (
+        <OptionsModal
+          open={optionsOpen}
+          options={options}
+          onSave={handleSaveOptions}
+          onClose={() => setOptionsOpen(false)}
+        />
+      )}
+      <FailureReportModal failures={failures} onClose={() => setFailures([])} />
+      <UndoInPlaceModal open={undoOpen} onClose={() => setUndoOpen(false)} />
+      <WatchFoldersModal open={watchOpen} presets={presets} onClose={() => setWatchOpen(false)} />
+      <HistoryModal open={historyOpen} onClose={() => setHistoryOpen(false)} />
     </>
   )
 }
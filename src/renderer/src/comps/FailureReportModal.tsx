@@ -0,0 +1,39 @@
+import { Collapse, Modal } from 'antd'
+import { FailedItem } from '../../../types'
+
+// Shown at the end of a batch that had failures, with ffmpeg's own explanation for each file
+export default function FailureReportModal({
+  failures,
+  onClose
+}: {
+  failures: FailedItem[]
+  onClose: () => void
+}): JSX.Element {
+  return (
+    <Modal
+      title={`${failures.length} file(s) failed to convert`}
+      open={failures.length > 0}
+      onOk={onClose}
+      onCancel={onClose}
+      cancelButtonProps={{ style: { display: 'none' } }}
+      width="60%"
+    >
+      <Collapse
+        items={failures.map((failure) => ({
+          key: failure.inputPath,
+          label: (
+            <span>
+              <span className="font-bold">{failure.inputPath}</span> - {failure.kind},{' '}
+              {failure.attempts} attempt(s)
+            </span>
+          ),
+          children: (
+            <pre className="whitespace-pre-wrap text-xs max-h-[300px] overflow-y-auto">
+              {failure.stderr || failure.message}
+            </pre>
+          )
+        }))}
+      />
+    </Modal>
+  )
+}
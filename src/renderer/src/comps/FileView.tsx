@@ -1,25 +1,213 @@
-import { useState, Fragment, useEffect } from 'react'
-import { Button } from 'antd'
-import { DirItem } from '../../../types'
-import { FaTrash, FaChevronDown, FaChevronRight } from 'react-icons/fa'
-import { showConversionErrorNotification } from '../Notifications'
+import { useState, Fragment, useEffect, useRef } from 'react'
+import bytes from 'bytes'
+import { Button, Checkbox, Popover, Spin, Tag } from 'antd'
+import {
+  DirItem,
+  DuplicateAction,
+  FailedItem,
+  MediaInfo,
+  ScannedFile,
+  ScanProgress,
+  ScanResult
+} from '../../../types'
+import { FaTrash, FaChevronDown, FaChevronRight, FaTimes, FaColumns, FaFlask } from 'react-icons/fa'
+import {
+  showConversionErrorNotification,
+  showScanErrorsNotification,
+  showScanStoppedNotification
+} from '../Notifications'
 import { useExplorer } from '../ExplorerContext'
 import { IpcRendererEvent } from 'electron'
 import ProgressIndicator from './ProgressIndicator'
+import PreviewThumb from './PreviewThumb'
+import TestEncodeModal from './TestEncodeModal'
+import TrackPicker from './TrackPicker'
+
+// Optional columns filled from what ffprobe found in each file (DirItem.media)
+const mediaColumns: { key: string; title: string; render: (media: MediaInfo) => string }[] = [
+  {
+    key: 'codec',
+    title: 'Codec',
+    render: (media) => [media.videoCodec, media.audioCodec].filter(Boolean).join(' / ')
+  },
+  {
+    key: 'resolution',
+    title: 'Resolution',
+    render: (media) => (media.width && media.height ? `${media.width}x${media.height}` : '')
+  },
+  { key: 'frameRate', title: 'FPS', render: (media) => media.frameRate?.toString() ?? '' },
+  {
+    key: 'bitrate',
+    title: 'Bitrate',
+    render: (media) => (media.bitrate ? `${Math.round(media.bitrate / 1000)} kb/s` : '')
+  },
+  { key: 'channelLayout', title: 'Channels', render: (media) => media.channelLayout ?? '' },
+  { key: 'pixelFormat', title: 'Pixel Format', render: (media) => media.pixelFormat ?? '' },
+  { key: 'hdr', title: 'HDR', render: (media) => media.hdr ?? '' },
+  {
+    key: 'traits',
+    title: 'Alpha/Animated',
+    render: (media) =>
+      [media.alpha && 'alpha', media.animated && 'animated'].filter(Boolean).join(', ')
+  }
+]
+
+const baseName = (filePath: string): string => filePath.split(/[\\/]/).pop() ?? filePath
+
+// Builds the tree of a batch of files streamed by a running scan, with the folders above them
+const nestScanned = (found: ScannedFile[], depth = 0): DirItem[] => {
+  const byFolder = new Map<string, ScannedFile[]>()
+  const files: DirItem[] = []
+  for (const entry of found) {
+    if (entry.folders.length === depth) {
+      files.push(entry.item)
+    } else {
+      const folderPath = entry.folders[depth].path
+      const entries = byFolder.get(folderPath)
+      if (entries) entries.push(entry)
+      else byFolder.set(folderPath, [entry])
+    }
+  }
+
+  const folders = [...byFolder.values()].map((entries) =>
+    withChildren(
+      { ...entries[0].folders[depth], type: 'folder', size: '', isExpanded: false },
+      nestScanned(entries, depth + 1)
+    )
+  )
+  return [...folders, ...files]
+}
+
+// Folder sizes count their media files, so they're recounted whenever the children change
+const withChildren = (folder: DirItem, children: DirItem[]): DirItem => {
+  const sizeBytes = children.reduce((sum, child) => sum + (child.sizeBytes ?? 0), 0)
+  return { ...folder, children, sizeBytes, size: bytes(sizeBytes) }
+}
+
+// '' once there's no parent left - paths come from the main process, so both separators are possible
+const parentOf = (itemPath: string): string =>
+  itemPath.slice(0, Math.max(itemPath.lastIndexOf('/'), itemPath.lastIndexOf('\\')))
+
+const isInside = (itemPath: string, folderPath: string): boolean =>
+  itemPath.length > folderPath.length &&
+  itemPath.startsWith(folderPath) &&
+  /[\\/]/.test(itemPath[folderPath.length])
+
+// Wraps an item in the folders between folderPath and itself, so it can be merged into that folder's children
+const nestUnder = (folderPath: string, item: DirItem): DirItem => {
+  const parentPath = parentOf(item.path)
+  if (parentPath === folderPath) return item
+  const parent: DirItem = {
+    path: parentPath,
+    name: baseName(parentPath),
+    type: 'folder',
+    size: '',
+    isExpanded: false
+  }
+  return nestUnder(folderPath, withChildren(parent, [item]))
+}
+
+// Adds imported items to what's loaded already, every path shows up once:
+// - a folder imported twice gets the new files of both
+// - something inside a loaded folder goes into that folder, at its place in the tree
+// - a folder holding loaded items takes them in
+// - anything else (another drive, another parent folder) becomes a root of its own
+// Files that are there already keep their state (picked tracks, duplicate marks)
+const mergeItems = (existing: DirItem[], incoming: DirItem[]): DirItem[] => {
+  let items = [...existing]
+  let indexByPath = new Map(items.map((item, i) => [item.path, i]))
+
+  // Looked up by walking up the path, a flat folder can have a lot of siblings
+  const containerIndex = (itemPath: string): number | undefined => {
+    for (let parent = parentOf(itemPath); parent; parent = parentOf(parent)) {
+      const i = indexByPath.get(parent)
+      if (i !== undefined && items[i].type === 'folder') return i
+    }
+    return undefined
+  }
+
+  for (const item of incoming) {
+    const same = indexByPath.get(item.path)
+    if (same !== undefined) {
+      const current = items[same]
+      if (current.type === 'folder' && item.type === 'folder') {
+        items[same] = withChildren(current, mergeItems(current.children ?? [], item.children ?? []))
+      }
+      continue
+    }
+
+    const container = containerIndex(item.path)
+    if (container !== undefined) {
+      const folder = items[container]
+      items[container] = withChildren(
+        folder,
+        mergeItems(folder.children ?? [], [nestUnder(folder.path, item)])
+      )
+      continue
+    }
+
+    const contained = item.type === 'folder' ? items.filter((i) => isInside(i.path, item.path)) : []
+    if (contained.length > 0) {
+      // Two loaded items can share a folder below the new one
+      const nested = mergeItems(
+        mergeItems(
+          [],
+          contained.map((i) => nestUnder(item.path, i))
+        ),
+        item.children ?? []
+      )
+      items = [...items.filter((i) => !contained.includes(i)), withChildren(item, nested)]
+      indexByPath = new Map(items.map((i, index) => [i.path, index]))
+      continue
+    }
+
+    indexByPath.set(item.path, items.length)
+    items.push(item)
+  }
+  return items
+}
+
+const countFiles = (items: DirItem[]): number =>
+  items.reduce(
+    (sum, item) => sum + (item.type === 'folder' ? countFiles(item.children ?? []) : 1),
+    0
+  )
+
+const COLUMNS_STORAGE_KEY = 'fileViewColumns' // The picked columns survive restarts
 
 export default function FileView(): JSX.Element {
   const [dragOverScreen, setDragOverScreen] = useState<boolean>(false)
+  const [testDir, setTestDir] = useState<DirItem | null>(null) // The file in the test encode modal
+  const [visibleColumns, setVisibleColumns] = useState<string[]>(() =>
+    JSON.parse(localStorage.getItem(COLUMNS_STORAGE_KEY) ?? '["codec", "resolution"]')
+  )
 
-  const { explorer, setExplorer, expandFolder, deleteItem, convertClicked } = useExplorer()
+  const changeVisibleColumns = (keys: string[]): void => {
+    setVisibleColumns(keys)
+    localStorage.setItem(COLUMNS_STORAGE_KEY, JSON.stringify(keys))
+  }
+
+  const shownColumns = mediaColumns.filter((column) => visibleColumns.includes(column.key))
+
+  const { explorer, setExplorer, expandFolder, deleteItem, convertClicked, setScanning } =
+    useExplorer()
+  // Shown while a scan runs
+  const [scanCounts, setScanCounts] = useState<{
+    scannedFiles: number
+    found: number
+    errors: number
+  }>()
+  // A second drop or browse can start while a scan runs, scanning only ends with the last of them
+  const activeScans = useRef(0)
 
-  const updateItemProgress = (items: DirItem[], path: string, progress: number): DirItem[] => {
+  const updateItem = (items: DirItem[], path: string, changes: Partial<DirItem>): DirItem[] => {
     return items.map((item) => {
       if (item.path === path) {
-        return { ...item, progress }
+        return { ...item, ...changes }
       } else if (item.children) {
         return {
           ...item,
-          children: updateItemProgress(item.children, path, progress)
+          children: updateItem(item.children, path, changes)
         }
       }
       return item
@@ -32,7 +220,91 @@ export default function FileView(): JSX.Element {
       inputPath: string,
       latestProgress: number
     ): void => {
-      setExplorer((prevExplorer) => updateItemProgress(prevExplorer, inputPath, latestProgress))
+      setExplorer((prevExplorer) =>
+        updateItem(prevExplorer, inputPath, { progress: latestProgress })
+      )
+    }
+
+    const handleConversionCancelled = (_event: IpcRendererEvent, inputPath: string): void => {
+      setExplorer((prevExplorer) => updateItem(prevExplorer, inputPath, { status: 'cancelled' }))
+    }
+
+    const handleItemFailed = (
+      _event: IpcRendererEvent,
+      inputPath: string,
+      failure: FailedItem
+    ): void => {
+      setExplorer((prevExplorer) =>
+        updateItem(prevExplorer, inputPath, { status: 'failed', failure })
+      )
+    }
+
+    const handleItemSkipped = (
+      _event: IpcRendererEvent,
+      inputPath: string,
+      reason: string,
+      copied: boolean
+    ): void => {
+      setExplorer((prevExplorer) =>
+        updateItem(prevExplorer, inputPath, {
+          status: 'skipped',
+          statusReason: `${reason}, ${copied ? 'copied as-is' : 'left out'}`
+        })
+      )
+    }
+
+    const handleItemDuplicate = (
+      _event: IpcRendererEvent,
+      inputPath: string,
+      originalPath: string,
+      action: DuplicateAction
+    ): void => {
+      setExplorer((prevExplorer) =>
+        updateItem(prevExplorer, inputPath, {
+          status: 'skipped',
+          statusReason: `Duplicate of ${baseName(originalPath)}, gets its converted file (${action === 'hardlink' ? 'hard link' : 'copy'})`
+        })
+      )
+    }
+
+    const handleScanProgress = (_event: IpcRendererEvent, progress: ScanProgress): void => {
+      if (progress.found.length > 0) {
+        setExplorer((prevExplorer) => mergeItems(prevExplorer, nestScanned(progress.found)))
+      }
+      setScanCounts((prevCounts) => ({
+        scannedFiles: progress.scannedFiles,
+        found: (prevCounts?.found ?? 0) + progress.found.length,
+        errors: (prevCounts?.errors ?? 0) + progress.errors.length
+      }))
+    }
+
+    const handleItemKeptOriginal = (
+      _event: IpcRendererEvent,
+      inputPath: string,
+      inputSize: number,
+      outputSize: number
+    ): void => {
+      setExplorer((prevExplorer) =>
+        updateItem(prevExplorer, inputPath, {
+          status: 'kept-original',
+          statusReason: `Kept original, converted was ${bytes(outputSize)} vs ${bytes(inputSize)}`
+        })
+      )
+    }
+
+    const handleItemTargetSize = (
+      _event: IpcRendererEvent,
+      inputPath: string,
+      outputSize: number,
+      targetBytes: number
+    ): void => {
+      const met = outputSize <= targetBytes
+      setExplorer((prevExplorer) =>
+        updateItem(prevExplorer, inputPath, {
+          status: met ? 'target-met' : 'target-missed',
+          statusReason: `${bytes(outputSize)}, ${met ? 'within' : 'over'} the ${bytes(targetBytes)} target`
+        })
+      )
     }
 
     const handleConversionError = (
@@ -45,38 +317,79 @@ export default function FileView(): JSX.Element {
 
     window.electron.ipcRenderer.on('LIVE_PROGRESS', handleProgressUpdate)
     window.electron.ipcRenderer.on('CONVERSION_ERROR', handleConversionError)
+    window.electron.ipcRenderer.on('CONVERSION_CANCELLED', handleConversionCancelled)
+    window.electron.ipcRenderer.on('ITEM_FAILED', handleItemFailed)
+    window.electron.ipcRenderer.on('ITEM_SKIPPED', handleItemSkipped)
+    window.electron.ipcRenderer.on('SCAN_PROGRESS', handleScanProgress)
+    window.electron.ipcRenderer.on('ITEM_DUPLICATE', handleItemDuplicate)
+    window.electron.ipcRenderer.on('ITEM_KEPT_ORIGINAL', handleItemKeptOriginal)
+    window.electron.ipcRenderer.on('ITEM_TARGET_SIZE', handleItemTargetSize)
 
     return (): void => {
       window.electron.ipcRenderer.removeListener('LIVE_PROGRESS', handleProgressUpdate)
       window.electron.ipcRenderer.removeListener('CONVERSION_ERROR', handleConversionError)
+      window.electron.ipcRenderer.removeListener('CONVERSION_CANCELLED', handleConversionCancelled)
+      window.electron.ipcRenderer.removeListener('ITEM_FAILED', handleItemFailed)
+      window.electron.ipcRenderer.removeListener('ITEM_SKIPPED', handleItemSkipped)
+      window.electron.ipcRenderer.removeListener('SCAN_PROGRESS', handleScanProgress)
+      window.electron.ipcRenderer.removeListener('ITEM_DUPLICATE', handleItemDuplicate)
+      window.electron.ipcRenderer.removeListener('ITEM_KEPT_ORIGINAL', handleItemKeptOriginal)
+      window.electron.ipcRenderer.removeListener('ITEM_TARGET_SIZE', handleItemTargetSize)
     }
   }, [])
 
+  // The whole view takes drops, also once files are loaded - only a running conversion refuses them.
+  // preventDefault either way, otherwise Chromium opens the dropped file in place of the app
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>): void => {
     e.preventDefault()
+    if (convertClicked) {
+      e.dataTransfer.dropEffect = 'none'
+      return
+    }
     e.dataTransfer.dropEffect = 'copy' // Explicitly setting the dropEffect
     setDragOverScreen(true)
   }
 
-  const handleDragLeave = (): void => {
-    setDragOverScreen(false)
+  const handleDragLeave = (e: React.DragEvent<HTMLDivElement>): void => {
+    // Moving over the rows fires this too, only leaving the view counts
+    if (!e.currentTarget.contains(e.relatedTarget as Node)) setDragOverScreen(false)
   }
 
   const handleDrop = async (e: React.DragEvent<HTMLDivElement>): Promise<void> => {
     e.preventDefault()
     setDragOverScreen(false)
+    if (convertClicked) return
     const pathsToDetail = Array.from(e.dataTransfer.files).map((file) => file.path)
-    const res = await window.electron.ipcRenderer.invoke('GET_DETAILS', pathsToDetail)
-    console.log('detiled res is', res)
-
-    setExplorer(res)
+    await loadScan(() => window.electron.ipcRenderer.invoke('GET_DETAILS', pathsToDetail))
   }
 
   const importDirs = async (type: 'folder' | 'file'): Promise<void> => {
-    const res = await window.electron.ipcRenderer.invoke('SELECT_DIRS', { type })
-    console.log('detiled res is', res)
+    await loadScan(() => window.electron.ipcRenderer.invoke('SELECT_DIRS', { type }))
+  }
 
-    setExplorer(res)
+  // The explorer fills up while the scan runs (SCAN_PROGRESS), the finished scan is merged in once more for
+  // the folders without media and the folder sizes
+  const loadScan = async (scan: () => Promise<ScanResult>): Promise<void> => {
+    activeScans.current++
+    if (activeScans.current === 1) {
+      setScanning(true)
+      setScanCounts({ scannedFiles: 0, found: 0, errors: 0 })
+    }
+    try {
+      const res = await scan()
+      console.log('detiled res is', res)
+      setExplorer((prevExplorer) => mergeItems(prevExplorer, res.items))
+      if (res.errors.length > 0) showScanErrorsNotification(res.errors)
+      if (res.cancelled) showScanStoppedNotification(countFiles(res.items))
+    } catch (err) {
+      // Selection cancelled
+    } finally {
+      activeScans.current--
+      if (activeScans.current === 0) {
+        setScanning(false)
+        setScanCounts(undefined)
+      }
+    }
   }
 
   const renderDirItems = (items: DirItem[], depth: number = 0): JSX.Element[] => {
@@ -103,26 +416,98 @@ export default function FileView(): JSX.Element {
                   <FaTrash size={14} />
                 </Button>
               )}
+              {/* Audio has no picture to compare */}
+              {!convertClicked && (dir.ext === 'video' || dir.ext === 'image') && (
+                <Button
+                  onClick={() => setTestDir(dir)}
+                  title="Test encode this file with the selected preset"
+                  className="bg-gray-700 hover:bg-gray-600 text-white p-2 rounded ml-2"
+                >
+                  <FaFlask size={14} />
+                </Button>
+              )}
+              {/* Only files still waiting or converting can be cancelled */}
+              {convertClicked &&
+                dir.type === 'file' &&
+                !dir.status &&
+                (dir.progress || 0) < 100 && (
+                  <Button
+                    onClick={() => window.electron.ipcRenderer.invoke('CANCEL_ITEM', dir.path)}
+                    title="Cancel this file"
+                    className="bg-red-600 hover:bg-red-700 text-white p-2 rounded ml-2"
+                  >
+                    <FaTimes size={14} />
+                  </Button>
+                )}
             </div>
           </td>
           <td className="text-lg">
             <div style={{ paddingLeft: `${depth * 10}px` }} className="flex items-center">
               {dir.type === 'folder' ? (
                 <span className="mr-2">📁</span>
-              ) : dir.ext === 'video' ? (
-                <span className="mr-2">🎬</span>
-              ) : dir.ext === 'image' ? (
-                <span className="mr-2">🖼️</span>
-              ) : dir.ext === 'audio' ? (
-                <span className="mr-2">🔊</span>
-              ) : null}
+              ) : (
+                <PreviewThumb dir={dir} />
+              )}
               {dir.name}
+              {dir.ext === 'video' && (
+                <TrackPicker
+                  dir={dir}
+                  disabled={convertClicked}
+                  onChange={(trackActions) =>
+                    setExplorer((prevExplorer) =>
+                      updateItem(prevExplorer, dir.path, { trackActions })
+                    )
+                  }
+                />
+              )}
+              {/* Closing the tag converts the file on its own after all */}
+              {dir.duplicateOf && (
+                <Tag
+                  color="gold"
+                  className="ml-2"
+                  closable={!convertClicked}
+                  title={dir.duplicateOf}
+                  onClose={() =>
+                    setExplorer((prevExplorer) =>
+                      updateItem(prevExplorer, dir.path, { duplicateOf: undefined })
+                    )
+                  }
+                >
+                  Duplicate of {baseName(dir.duplicateOf)}
+                </Tag>
+              )}
+              {/* Clicking treats a look-alike image as a duplicate */}
+              {dir.similarTo && !dir.duplicateOf && (
+                <Tag
+                  color="blue"
+                  className="ml-2 cursor-pointer"
+                  title={`${dir.similarTo} - click to use its converted file instead of converting this one`}
+                  onClick={() =>
+                    !convertClicked &&
+                    setExplorer((prevExplorer) =>
+                      updateItem(prevExplorer, dir.path, { duplicateOf: dir.similarTo })
+                    )
+                  }
+                >
+                  Similar to {baseName(dir.similarTo)}
+                </Tag>
+              )}
             </div>
           </td>
           <td className="p-3 text-lg">{dir.size}</td>
           <td className="p-3 text-lg">{dir.duration}</td>
+          {shownColumns.map((column) => (
+            <td key={column.key} className="p-3 text-lg whitespace-nowrap">
+              {dir.media ? column.render(dir.media) : ''}
+            </td>
+          ))}
           <td className="p-3 text-lg">
-            <ProgressIndicator fileType={dir.ext} progress={dir.progress || 0} />
+            <ProgressIndicator
+              fileType={dir.ext}
+              progress={dir.progress || 0}
+              status={dir.status}
+              statusReason={dir.statusReason}
+            />
           </td>
         </tr>
         {dir.children && dir.isExpanded && renderDirItems(dir.children, depth + 1)}
@@ -131,12 +516,35 @@ export default function FileView(): JSX.Element {
   }
 
   return (
-    <div className="bg-gray-900 text-gray-100 h-[93%] p-3 overflow-y-auto">
+    <div
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+      className={`bg-gray-900 text-gray-100 h-[93%] p-3 overflow-y-auto ${
+        dragOverScreen && explorer.length > 0
+          ? 'outline-dashed outline-4 -outline-offset-4 outline-blue-400'
+          : ''
+      }`}
+    >
+      {scanCounts && (
+        <div className="flex flex-row items-center gap-4 mb-3">
+          <Spin size="small" />
+          <span>
+            Scanned {scanCounts.scannedFiles.toLocaleString()} files,{' '}
+            {scanCounts.found.toLocaleString()} media files found
+            {scanCounts.errors > 0 && `, ${scanCounts.errors} could not be read`}
+          </span>
+          <Button
+            danger
+            size="small"
+            onClick={() => window.electron.ipcRenderer.invoke('CANCEL_SCAN')}
+          >
+            Stop Scanning
+          </Button>
+        </div>
+      )}
       {explorer.length === 0 ? (
         <div
-          onDragOver={handleDragOver}
-          onDragLeave={handleDragLeave}
-          onDrop={handleDrop}
           className={`w-full h-full border-4 ${
             dragOverScreen
               ? 'border-dashed border-blue-400 bg-gray-800'
@@ -150,7 +558,7 @@ export default function FileView(): JSX.Element {
               <div className="w-[60%] mb-6 text-center">
                 <h1 className="text-xl font-bold text-gray-400">
                   Greetings, videos will be converted to AV1, images will be converted to AVIF,
-                  audios will be converted to OPUS
+                  audios will be converted to the preset&apos;s MP3, Opus, AAC or FLAC
                 </h1>
               </div>
               <div className="flex justify-center space-x-4 mb-6">
@@ -172,21 +580,68 @@ export default function FileView(): JSX.Element {
           )}
         </div>
       ) : (
-        <table className="w-full border-collapse">
-          <thead>
-            <tr className="bg-gray-800 text-left">
-              <>
-                <th className="p-3 w-24 text-lg"></th>
-                <th className="p-3 text-lg">Name</th>
-                <th className="p-3 text-lg">Size</th>
-                <th className="p-3 text-lg">Duration</th>
-                <th className="p-3 text-lg">Progress</th>
-              </>
-            </tr>
-          </thead>
-          <tbody>{renderDirItems(explorer)}</tbody>
-        </table>
+        <>
+          {!convertClicked && (
+            <div className="flex flex-row items-center gap-2 mb-3">
+              <Button size="small" onClick={() => importDirs('folder')}>
+                Add Folders
+              </Button>
+              <Button size="small" onClick={() => importDirs('file')}>
+                Add Files
+              </Button>
+              <span className="text-gray-400">
+                {dragOverScreen
+                  ? 'Drop to add them to the list'
+                  : 'Or drop more files anywhere here'}
+              </span>
+            </div>
+          )}
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="bg-gray-800 text-left">
+                <>
+                  <th className="p-3 w-24 text-lg">
+                    <Popover
+                      trigger="click"
+                      placement="bottomLeft"
+                      title="Columns"
+                      content={
+                        <Checkbox.Group
+                          className="flex flex-col"
+                          value={visibleColumns}
+                          onChange={(keys) => changeVisibleColumns(keys as string[])}
+                          options={mediaColumns.map((column) => ({
+                            label: column.title,
+                            value: column.key
+                          }))}
+                        />
+                      }
+                    >
+                      <Button
+                        title="Choose columns"
+                        className="bg-gray-700 hover:bg-gray-600 text-white p-2 rounded"
+                      >
+                        <FaColumns size={14} />
+                      </Button>
+                    </Popover>
+                  </th>
+                  <th className="p-3 text-lg">Name</th>
+                  <th className="p-3 text-lg">Size</th>
+                  <th className="p-3 text-lg">Duration</th>
+                  {shownColumns.map((column) => (
+                    <th key={column.key} className="p-3 text-lg">
+                      {column.title}
+                    </th>
+                  ))}
+                  <th className="p-3 text-lg">Progress</th>
+                </>
+              </tr>
+            </thead>
+            <tbody>{renderDirItems(explorer)}</tbody>
+          </table>
+        </>
       )}
+      <TestEncodeModal dir={testDir} onClose={() => setTestDir(null)} />
     </div>
   )
 }
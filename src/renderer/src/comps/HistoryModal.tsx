@@ -0,0 +1,159 @@
+import { useState, useEffect } from 'react'
+import bytes from 'bytes'
+import { Button, Modal, Table, Tag, notification } from 'antd'
+import { HistoryEntry, HistoryRun, HistoryRunOutcome } from '../../../types'
+
+const outcomeColors: Record<HistoryRunOutcome, string> = {
+  running: 'blue',
+  completed: 'green',
+  stopped: 'orange',
+  interrupted: 'red'
+}
+
+// Copies and kept originals count as nothing saved, entries without an output (failed, left out) don't count
+const savedBytes = (entries: HistoryEntry[]): number =>
+  entries.reduce(
+    (sum, e) =>
+      e.inputBytes !== undefined && e.outputBytes !== undefined
+        ? sum + e.inputBytes - e.outputBytes
+        : sum,
+    0
+  )
+
+const countBy = (entries: HistoryEntry[]): string =>
+  Object.entries(
+    entries.reduce<Record<string, number>>(
+      (counts, e) => ({ ...counts, [e.status]: (counts[e.status] ?? 0) + 1 }),
+      {}
+    )
+  )
+    .map(([status, count]) => `${count} ${status}`)
+    .join(' · ')
+
+const formatSeconds = (seconds: number): string =>
+  seconds < 90 ? `${Math.round(seconds)}s` : `${Math.round(seconds / 60)} min`
+
+// Past conversion runs with what they saved - each run can be exported for storage audits
+export default function HistoryModal({
+  open,
+  onClose
+}: {
+  open: boolean
+  onClose: () => void
+}): JSX.Element {
+  const [runs, setRuns] = useState<HistoryRun[]>([])
+
+  useEffect(() => {
+    const loadHistory = async (): Promise<void> => {
+      setRuns(await window.electron.ipcRenderer.invoke('GET_HISTORY'))
+    }
+    if (open) loadHistory()
+  }, [open])
+
+  const handleExport = async (run: HistoryRun, format: 'csv' | 'json'): Promise<void> => {
+    const savedTo: string | null = await window.electron.ipcRenderer.invoke('EXPORT_HISTORY_RUN', {
+      runId: run.id,
+      format
+    })
+    if (savedTo) {
+      notification.success({
+        message: 'Report Exported',
+        description: `Saved to ${savedTo}`,
+        placement: 'topRight',
+        duration: 5
+      })
+    }
+  }
+
+  const now = new Date()
+  const thisMonth = runs.filter((run) => {
+    const startedAt = new Date(run.startedAt)
+    return startedAt.getFullYear() === now.getFullYear() && startedAt.getMonth() === now.getMonth()
+  })
+  const converted = (list: HistoryRun[]): number =>
+    list.flatMap((run) => run.entries).filter((e) => e.status === 'converted').length
+
+  return (
+    <Modal title="Conversion history" open={open} onCancel={onClose} footer={null} width="80%">
+      <div className="grid grid-cols-2 gap-2 mb-4">
+        <div>
+          <div className="font-bold">This month</div>
+          {bytes(savedBytes(thisMonth.flatMap((run) => run.entries)))} saved ·{' '}
+          {converted(thisMonth)} files converted in {thisMonth.length} run(s)
+        </div>
+        <div>
+          <div className="font-bold">All time</div>
+          {bytes(savedBytes(runs.flatMap((run) => run.entries)))} saved · {converted(runs)} files
+          converted in {runs.length} run(s)
+        </div>
+      </div>
+      <Table
+        size="small"
+        rowKey="id"
+        dataSource={runs}
+        pagination={{ pageSize: 10 }}
+        columns={[
+          {
+            title: 'Started',
+            render: (_, run) => new Date(run.startedAt).toLocaleString()
+          },
+          { title: 'Source', dataIndex: 'source' },
+          { title: 'Preset', dataIndex: 'presetName' },
+          {
+            title: 'Outcome',
+            render: (_, run) => <Tag color={outcomeColors[run.outcome]}>{run.outcome}</Tag>
+          },
+          { title: 'Files', render: (_, run) => countBy(run.entries) },
+          {
+            title: 'Size',
+            render: (_, run): string => {
+              const inputBytes = run.entries.reduce((sum, e) => sum + (e.inputBytes ?? 0), 0)
+              return `${bytes(inputBytes)}, ${bytes(savedBytes(run.entries))} saved`
+            }
+          },
+          {
+            title: 'Export',
+            render: (_, run) => (
+              <span className="whitespace-nowrap">
+                <Button size="small" className="mr-1" onClick={() => handleExport(run, 'csv')}>
+                  CSV
+                </Button>
+                <Button size="small" onClick={() => handleExport(run, 'json')}>
+                  JSON
+                </Button>
+              </span>
+            )
+          }
+        ]}
+        expandable={{
+          expandedRowRender: (run) => (
+            <Table
+              size="small"
+              rowKey="inputPath"
+              dataSource={run.entries}
+              pagination={false}
+              columns={[
+                { title: 'Input', dataIndex: 'inputPath', ellipsis: true },
+                { title: 'Output', dataIndex: 'outputFile', ellipsis: true },
+                { title: 'Status', dataIndex: 'status' },
+                {
+                  title: 'Size',
+                  render: (_, e) =>
+                    e.inputBytes !== undefined
+                      ? `${bytes(e.inputBytes)}${e.outputBytes !== undefined ? ` → ${bytes(e.outputBytes)}` : ''}`
+                      : ''
+                },
+                {
+                  title: 'Encode time',
+                  render: (_, e) =>
+                    e.encodeSeconds !== undefined ? formatSeconds(e.encodeSeconds) : ''
+                },
+                { title: 'Reason', dataIndex: 'reason', ellipsis: true }
+              ]}
+            />
+          )
+        }}
+      />
+    </Modal>
+  )
+}
@@ -0,0 +1,321 @@
+import { useState, useEffect } from 'react'
+import { Checkbox, Input, InputNumber, Modal, Radio, Select, Switch } from 'antd'
+import { CollisionPolicy, ConversionOptions, FailureKind } from '../../../types'
+
+const failureKindLabels: Record<FailureKind, string> = {
+  'corrupt-input': 'Corrupt input',
+  'unsupported-codec': 'Unsupported codec',
+  'disk-full': 'Disk full',
+  'encoder-missing': 'Encoder missing',
+  unknown: 'Other errors'
+}
+
+const collisionLabels: Record<CollisionPolicy, string> = {
+  'auto-number': 'Add a number',
+  overwrite: 'Overwrite',
+  skip: 'Skip the file',
+  fail: "Don't start the batch"
+}
+
+// Batch settings that aren't part of a preset - edited on a draft copy and only applied on OK
+export default function OptionsModal({
+  open,
+  options,
+  onSave,
+  onClose
+}: {
+  open: boolean
+  options: ConversionOptions
+  onSave: (options: ConversionOptions) => void
+  onClose: () => void
+}): JSX.Element {
+  const [draft, setDraft] = useState<ConversionOptions>(options)
+
+  // Start from the current options every time the modal opens
+  useEffect(() => {
+    if (open) setDraft(options)
+  }, [open])
+
+  const updateErrorPolicy = (changes: Partial<ConversionOptions['errorPolicy']>): void => {
+    setDraft((prevDraft) => ({
+      ...prevDraft,
+      errorPolicy: { ...prevDraft.errorPolicy, ...changes }
+    }))
+  }
+
+  const updateSkipPolicy = (changes: Partial<ConversionOptions['skipPolicy']>): void => {
+    setDraft((prevDraft) => ({
+      ...prevDraft,
+      skipPolicy: { ...prevDraft.skipPolicy, ...changes }
+    }))
+  }
+
+  const updateSizeGuard = (changes: Partial<ConversionOptions['sizeGuard']>): void => {
+    setDraft((prevDraft) => ({
+      ...prevDraft,
+      sizeGuard: { ...prevDraft.sizeGuard, ...changes }
+    }))
+  }
+
+  const updateNaming = (changes: Partial<ConversionOptions['naming']>): void => {
+    setDraft((prevDraft) => ({
+      ...prevDraft,
+      naming: { ...prevDraft.naming, ...changes }
+    }))
+  }
+
+  const updateVideoRate = (changes: Partial<ConversionOptions['videoRate']>): void => {
+    setDraft((prevDraft) => ({
+      ...prevDraft,
+      videoRate: { ...prevDraft.videoRate, ...changes }
+    }))
+  }
+
+  const updateInPlace = (changes: Partial<ConversionOptions['inPlace']>): void => {
+    setDraft((prevDraft) => ({
+      ...prevDraft,
+      inPlace: { ...prevDraft.inPlace, ...changes }
+    }))
+  }
+
+  const updateDuplicates = (changes: Partial<ConversionOptions['duplicates']>): void => {
+    setDraft((prevDraft) => ({
+      ...prevDraft,
+      duplicates: { ...prevDraft.duplicates, ...changes }
+    }))
+  }
+
+  return (
+    <Modal title="Conversion Options" open={open} onOk={() => onSave(draft)} onCancel={onClose}>
+      <h2 className="text-lg font-bold mb-2">Convert in place</h2>
+      <div className="flex flex-col gap-3 mb-5">
+        <label className="flex flex-row items-center gap-3">
+          <Switch
+            checked={draft.inPlace.enabled}
+            onChange={(enabled) => updateInPlace({ enabled })}
+          />
+          Replace the originals with the converted files instead of using an output folder
+        </label>
+        <Radio.Group
+          disabled={!draft.inPlace.enabled}
+          value={draft.inPlace.originals}
+          onChange={(e) => updateInPlace({ originals: e.target.value })}
+        >
+          <Radio value="backup">Back up the originals (can be undone)</Radio>
+          <Radio value="trash">
+            Send the originals to the trash (can&apos;t be undone here, only from the trash by hand)
+          </Radio>
+        </Radio.Group>
+        <label className="flex flex-col gap-1">
+          Backup folder, also keeps the undo history (leave empty for the app&apos;s data folder)
+          <Input
+            disabled={!draft.inPlace.enabled}
+            value={draft.inPlace.backupDir}
+            onChange={(e) => updateInPlace({ backupDir: e.target.value.trim() })}
+          />
+        </label>
+      </div>
+
+      <h2 className="text-lg font-bold mb-2">Video size</h2>
+      <div className="flex flex-col gap-3 mb-5">
+        <Radio.Group
+          value={draft.videoRate.mode}
+          onChange={(e) => updateVideoRate({ mode: e.target.value })}
+        >
+          <Radio value="crf">Preset quality (single pass)</Radio>
+          <Radio value="target-size">Fit each video into a size (two passes)</Radio>
+        </Radio.Group>
+        <label className="flex flex-row items-center gap-3">
+          At most (MB)
+          <InputNumber
+            min={1}
+            disabled={draft.videoRate.mode !== 'target-size'}
+            value={Math.round(draft.videoRate.targetBytes / 1024 / 1024)}
+            onChange={(mb) => updateVideoRate({ targetBytes: (mb ?? 1) * 1024 * 1024 })}
+          />
+        </label>
+      </div>
+
+      <h2 className="text-lg font-bold mb-2">Output names</h2>
+      <div className="flex flex-col gap-3">
+        <label className="flex flex-col gap-1">
+          Name template (the extension is added automatically)
+          <Input
+            value={draft.naming.template}
+            placeholder="{name}"
+            onChange={(e) => updateNaming({ template: e.target.value })}
+          />
+          <span className="text-gray-500">
+            {'{name} {ext} {preset} {date} {width} {height} {relpath}'} - use / for subfolders
+          </span>
+        </label>
+        <label className="flex flex-row items-center gap-3">
+          <Switch
+            checked={draft.naming.flatten}
+            onChange={(flatten) => updateNaming({ flatten })}
+          />
+          Put every file straight into the output folder instead of mirroring the input folders
+        </label>
+        <label className="flex flex-row items-center gap-3">
+          When the output already exists
+          <Select
+            className="w-48"
+            value={draft.naming.collision}
+            onChange={(collision) => updateNaming({ collision })}
+            options={Object.entries(collisionLabels).map(([value, label]) => ({ value, label }))}
+          />
+        </label>
+      </div>
+
+      <h2 className="text-lg font-bold mt-5 mb-2">When a file fails</h2>
+      <div className="flex flex-col gap-3">
+        <label className="flex flex-row items-center gap-3">
+          <Switch
+            checked={draft.errorPolicy.continueOnError}
+            onChange={(continueOnError) => updateErrorPolicy({ continueOnError })}
+          />
+          Keep converting the other files (otherwise the whole batch stops and its output is
+          removed)
+        </label>
+        <label className="flex flex-row items-center gap-3">
+          Retries per file
+          <InputNumber
+            min={0}
+            max={10}
+            value={draft.errorPolicy.maxRetries}
+            onChange={(maxRetries) => updateErrorPolicy({ maxRetries: maxRetries ?? 0 })}
+          />
+        </label>
+        <div>
+          <div className="mb-1">Retry on</div>
+          <Checkbox.Group
+            value={draft.errorPolicy.retryOn}
+            onChange={(retryOn) => updateErrorPolicy({ retryOn: retryOn as FailureKind[] })}
+            options={Object.entries(failureKindLabels).map(([value, label]) => ({ value, label }))}
+          />
+        </div>
+        <label className="flex flex-col gap-1">
+          Fallback encoder for retries (leave empty to retry with the preset&apos;s encoder)
+          <Input
+            value={draft.errorPolicy.fallbackEncoder}
+            placeholder="e.g. libaom-av1"
+            onChange={(e) => updateErrorPolicy({ fallbackEncoder: e.target.value.trim() })}
+          />
+        </label>
+      </div>
+
+      <h2 className="text-lg font-bold mt-5 mb-2">Already efficient files</h2>
+      <div className="flex flex-col gap-3">
+        <label className="flex flex-row items-center gap-3">
+          <Switch
+            checked={draft.skipPolicy.enabled}
+            onChange={(enabled) => updateSkipPolicy({ enabled })}
+          />
+          Don&apos;t convert files that match the rules below
+        </label>
+        <Radio.Group
+          disabled={!draft.skipPolicy.enabled}
+          value={draft.skipPolicy.action}
+          onChange={(e) => updateSkipPolicy({ action: e.target.value })}
+        >
+          <Radio value="copy">Copy them to the output as-is</Radio>
+          <Radio value="omit">Leave them out</Radio>
+        </Radio.Group>
+        <label className="flex flex-col gap-1">
+          Codecs
+          <Select
+            mode="tags"
+            disabled={!draft.skipPolicy.enabled}
+            value={draft.skipPolicy.codecs}
+            placeholder="e.g. av1, opus"
+            onChange={(codecs) => updateSkipPolicy({ codecs })}
+          />
+        </label>
+        <label className="flex flex-row items-center gap-3">
+          Smaller than (KB)
+          <InputNumber
+            min={0}
+            disabled={!draft.skipPolicy.enabled}
+            value={Math.round(draft.skipPolicy.minSizeBytes / 1024)}
+            onChange={(kb) => updateSkipPolicy({ minSizeBytes: (kb ?? 0) * 1024 })}
+          />
+        </label>
+        <label className="flex flex-row items-center gap-3">
+          Video below (bits/pixel)
+          <InputNumber
+            min={0}
+            step={0.01}
+            disabled={!draft.skipPolicy.enabled}
+            value={draft.skipPolicy.videoBitsPerPixel}
+            onChange={(videoBitsPerPixel) =>
+              updateSkipPolicy({ videoBitsPerPixel: videoBitsPerPixel ?? 0 })
+            }
+          />
+        </label>
+        <label className="flex flex-row items-center gap-3">
+          Images below (bits/pixel)
+          <InputNumber
+            min={0}
+            step={0.1}
+            disabled={!draft.skipPolicy.enabled}
+            value={draft.skipPolicy.imageBitsPerPixel}
+            onChange={(imageBitsPerPixel) =>
+              updateSkipPolicy({ imageBitsPerPixel: imageBitsPerPixel ?? 0 })
+            }
+          />
+        </label>
+        <label className="flex flex-row items-center gap-3">
+          Audio at or below (kb/s)
+          <InputNumber
+            min={0}
+            disabled={!draft.skipPolicy.enabled}
+            value={draft.skipPolicy.audioKbps}
+            onChange={(audioKbps) => updateSkipPolicy({ audioKbps: audioKbps ?? 0 })}
+          />
+        </label>
+        <div className="text-gray-500">Set a threshold to 0 to turn that rule off.</div>
+      </div>
+
+      <h2 className="text-lg font-bold mt-5 mb-2">When converting doesn&apos;t pay off</h2>
+      <div className="flex flex-col gap-3">
+        <label className="flex flex-row items-center gap-3">
+          <Switch
+            checked={draft.sizeGuard.enabled}
+            onChange={(enabled) => updateSizeGuard({ enabled })}
+          />
+          Keep a copy of the original instead of the converted file
+        </label>
+        <label className="flex flex-row items-center gap-3">
+          Unless the converted file is at least this much smaller (%)
+          <InputNumber
+            min={0}
+            max={99}
+            disabled={!draft.sizeGuard.enabled}
+            value={draft.sizeGuard.minSavingsPercent}
+            onChange={(minSavingsPercent) =>
+              updateSizeGuard({ minSavingsPercent: minSavingsPercent ?? 0 })
+            }
+          />
+        </label>
+      </div>
+
+      <h2 className="text-lg font-bold mt-5 mb-2">Duplicates</h2>
+      <div className="flex flex-col gap-3">
+        <div>
+          Only one copy of each duplicate is converted (Find Duplicates marks them). The others:
+        </div>
+        <Radio.Group
+          value={draft.duplicates.action}
+          onChange={(e) => updateDuplicates({ action: e.target.value })}
+        >
+          <Radio value="hardlink">Hard-link the converted file (takes no space)</Radio>
+          <Radio value="copy">Copy the converted file</Radio>
+          <Radio value="leave-out">Leave them out</Radio>
+        </Radio.Group>
+        <div className="text-gray-500">
+          Converting in place ignores duplicates, every copy is converted.
+        </div>
+      </div>
+    </Modal>
+  )
+}
@@ -0,0 +1,59 @@
+import { useState, useEffect, useRef } from 'react'
+import { Popover } from 'antd'
+import { DirItem } from '../../../types'
+
+const fileIcons = { video: '🎬', image: '🖼️', audio: '🔊' }
+
+// A file's preview next to its name - only requested once the row scrolls into view, since every preview
+// is an ffmpeg run the first time. Shows the type icon until (or if) the preview arrives, hovering enlarges it
+export default function PreviewThumb({ dir }: { dir: DirItem }): JSX.Element | null {
+  const [preview, setPreview] = useState<string | null>(null)
+  const [failed, setFailed] = useState<boolean>(false) // The file couldn't be read at all
+  const containerRef = useRef<HTMLSpanElement>(null)
+
+  useEffect(() => {
+    const element = containerRef.current
+    if (!element) return
+    let cancelled = false
+
+    const observer = new IntersectionObserver((entries) => {
+      if (!entries.some((entry) => entry.isIntersecting)) return
+      observer.disconnect() // Requested once, the main process caches it anyway
+      window.electron.ipcRenderer
+        .invoke('GET_PREVIEW', dir.path, dir.ext, dir.duration)
+        .then((res: string | null) => !cancelled && setPreview(res))
+        .catch(() => !cancelled && setFailed(true))
+    })
+    observer.observe(element)
+
+    return (): void => {
+      cancelled = true
+      observer.disconnect()
+    }
+  }, [dir.path])
+
+  if (!dir.ext) return null
+
+  return (
+    <span ref={containerRef} className="mr-2 flex items-center">
+      {preview ? (
+        <Popover
+          mouseEnterDelay={0.3}
+          content={<img src={preview} alt={dir.name} className="max-w-[320px]" />}
+        >
+          <img
+            src={preview}
+            alt=""
+            className={`h-8 w-12 rounded ${dir.ext === 'audio' ? 'object-contain' : 'object-cover'}`}
+          />
+        </Popover>
+      ) : failed ? (
+        <span title="No preview, the file could not be read" className="opacity-50">
+          {fileIcons[dir.ext]}
+        </span>
+      ) : (
+        fileIcons[dir.ext]
+      )}
+    </span>
+  )
+}
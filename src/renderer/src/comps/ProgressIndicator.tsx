@@ -1,8 +1,17 @@
 import { Progress, Spin } from 'antd'
-import { CheckOutlined, LoadingOutlined } from '@ant-design/icons'
+import {
+  CheckOutlined,
+  CloseCircleOutlined,
+  CopyOutlined,
+  ForwardOutlined,
+  LoadingOutlined,
+  PauseOutlined,
+  StopOutlined,
+  WarningOutlined
+} from '@ant-design/icons'
 import styled from 'styled-components'
 import { useExplorer } from '../ExplorerContext'
-import { ext } from '../../../types'
+import { ext, ItemStatus } from '../../../types'
 
 const FullWidthProgress = styled(Progress)`
   .ant-progress-outer {
@@ -28,14 +37,60 @@ const CenteredContainer = styled.div`
 
 const ProgressIndicator = ({
   fileType,
-  progress
+  progress,
+  status,
+  statusReason
 }: {
   fileType: ext
   progress: number
+  status?: ItemStatus
+  statusReason?: string
 }): React.ReactElement | null => {
-  const { convertClicked } = useExplorer()
+  const { convertClicked, conversionPaused } = useExplorer()
   const iconSize = 36 // Consistent size for both spinner and checkmark
 
+  if (status === 'cancelled') {
+    return (
+      <CenteredContainer title="Cancelled">
+        <StopOutlined style={{ fontSize: iconSize, color: '#8c8c8c' }} />
+      </CenteredContainer>
+    )
+  }
+
+  if (status === 'failed') {
+    return (
+      <CenteredContainer title="Failed - see the report at the end of the batch">
+        <CloseCircleOutlined style={{ fontSize: iconSize, color: '#ff4d4f' }} />
+      </CenteredContainer>
+    )
+  }
+
+  if (status === 'skipped' || status === 'kept-original') {
+    return (
+      <CenteredContainer title={statusReason}>
+        {status === 'skipped' ? (
+          <ForwardOutlined style={{ fontSize: iconSize, color: '#1677ff' }} />
+        ) : (
+          <CopyOutlined style={{ fontSize: iconSize, color: '#52c41a' }} />
+        )}
+        <span className="ml-2 text-sm text-gray-400">{statusReason}</span>
+      </CenteredContainer>
+    )
+  }
+
+  if (status === 'target-met' || status === 'target-missed') {
+    return (
+      <CenteredContainer title={statusReason}>
+        {status === 'target-met' ? (
+          <CheckOutlined style={{ fontSize: iconSize, color: '#52c41a' }} />
+        ) : (
+          <WarningOutlined style={{ fontSize: iconSize, color: '#faad14' }} />
+        )}
+        <span className="ml-2 text-sm text-gray-400">{statusReason}</span>
+      </CenteredContainer>
+    )
+  }
+
   if (fileType === 'image') {
     return (
       <CenteredContainer>
@@ -43,6 +98,8 @@ const ProgressIndicator = ({
           <div className="w-8 h-8 rounded-full border-2 border-white" />
         ) : progress >= 100 ? (
           <CheckOutlined style={{ fontSize: iconSize, color: '#52c41a' }} />
+        ) : conversionPaused ? (
+          <PauseOutlined style={{ fontSize: iconSize, color: '#faad14' }} />
         ) : (
           <WhiteSpin indicator={<LoadingOutlined style={{ fontSize: iconSize }} spin />} />
         )}
@@ -53,7 +110,7 @@ const ProgressIndicator = ({
     return (
       <FullWidthProgress
         percent={convertClicked ? (progress >= 2 ? progress : 2) : 100}
-        status={progress >= 100 ? 'success' : 'active'}
+        status={progress >= 100 ? 'success' : conversionPaused ? 'normal' : 'active'}
         showInfo={false}
       />
     )
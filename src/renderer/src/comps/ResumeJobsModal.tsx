@@ -0,0 +1,72 @@
+import { useState, useEffect } from 'react'
+import { Button, Modal } from 'antd'
+import { DirItem, UnfinishedJob } from '../../../types'
+import { useExplorer } from '../ExplorerContext'
+
+// Offers to resume batches that were interrupted by a crash or by quitting the app mid-conversion
+export default function ResumeJobsModal(): JSX.Element {
+  const [jobs, setJobs] = useState<UnfinishedJob[]>([])
+
+  const { setExplorer, setConvertClicked } = useExplorer()
+
+  useEffect(() => {
+    const loadJobs = async (): Promise<void> => {
+      const res: UnfinishedJob[] = await window.electron.ipcRenderer.invoke('GET_UNFINISHED_JOBS')
+      setJobs(res)
+    }
+    loadJobs()
+  }, [])
+
+  const removeJob = (manifestPath: string): void => {
+    setJobs((prevJobs) => prevJobs.filter((job) => job.manifestPath !== manifestPath))
+  }
+
+  const handleResume = async (job: UnfinishedJob): Promise<void> => {
+    // Only one batch runs at a time, so the other jobs stay registered and are offered again next launch
+    setJobs([])
+    const res: DirItem[] = await window.electron.ipcRenderer.invoke('RESUME_JOB', job.manifestPath)
+    setExplorer(res)
+    setConvertClicked(true)
+  }
+
+  const handleDiscard = async (job: UnfinishedJob): Promise<void> => {
+    await window.electron.ipcRenderer.invoke('DISCARD_JOB', job.manifestPath)
+    removeJob(job.manifestPath)
+  }
+
+  return (
+    <Modal
+      title="Unfinished conversions"
+      open={jobs.length > 0}
+      onCancel={() => setJobs([])}
+      footer={null}
+    >
+      <p className="mb-4">
+        These conversions were interrupted. Resuming skips files that were already converted and
+        redoes the ones that were cut off.
+      </p>
+      {jobs.map((job) => (
+        <div
+          key={job.manifestPath}
+          className="flex flex-row justify-between items-center border-b border-gray-300 py-2"
+        >
+          <div>
+            <div className="font-bold">{job.outputDir}</div>
+            <div className="text-gray-500">
+              {job.done} of {job.total} files done, preset {job.presetName}, last update{' '}
+              {new Date(job.updatedAt).toLocaleString()}
+            </div>
+          </div>
+          <div className="flex flex-row gap-2">
+            <Button type="primary" onClick={() => handleResume(job)}>
+              Resume
+            </Button>
+            <Button danger onClick={() => handleDiscard(job)}>
+              Discard
+            </Button>
+          </div>
+        </div>
+      ))}
+    </Modal>
+  )
+}
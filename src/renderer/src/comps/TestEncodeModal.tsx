@@ -0,0 +1,112 @@
+import { useState, useEffect } from 'react'
+import bytes from 'bytes'
+import { Modal, Slider, Spin } from 'antd'
+import { DirItem, TestEncodeResult } from '../../../types'
+import { useExplorer } from '../ExplorerContext'
+
+const formatSeconds = (seconds: number): string =>
+  seconds < 90 ? `${Math.round(seconds)}s` : `${Math.round(seconds / 60)} min`
+
+const formatMetric = (value: number | null, digits: number, unit = ''): string => {
+  if (value === null) return 'n/a'
+  return value === Infinity ? 'identical' : `${value.toFixed(digits)}${unit}`
+}
+
+// Encodes a piece of one file with the selected preset and shows how it compares to the source -
+// the left side of the slider is the source, the right side the encode
+export default function TestEncodeModal({
+  dir,
+  onClose
+}: {
+  dir: DirItem | null
+  onClose: () => void
+}): JSX.Element {
+  const { presetName } = useExplorer()
+  const [result, setResult] = useState<TestEncodeResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [split, setSplit] = useState<number>(50)
+
+  useEffect(() => {
+    if (!dir) return
+    let closed = false // The modal may be closed (or another file picked) before the encode is done
+    setResult(null)
+    setError(null)
+    window.electron.ipcRenderer
+      .invoke('TEST_ENCODE', {
+        filePath: dir.path,
+        type: dir.ext,
+        duration: dir.duration,
+        presetName,
+        imageTraits: { alpha: dir.media?.alpha, animated: dir.media?.animated },
+        tracks: dir.media?.tracks,
+        trackActions: dir.trackActions
+      })
+      .then((res: TestEncodeResult) => !closed && setResult(res))
+      .catch((err: Error) => !closed && setError(err.message))
+    return (): void => {
+      closed = true
+    }
+  }, [dir, presetName])
+
+  return (
+    <Modal
+      title={`Test encode of ${dir?.name ?? ''} (preset: ${presetName})`}
+      open={dir !== null}
+      onCancel={onClose}
+      footer={null}
+      width="80%"
+    >
+      {error ? (
+        <p className="text-red-500">Test encode failed: {error}</p>
+      ) : !result ? (
+        <div className="flex flex-col items-center py-10">
+          <Spin size="large" />
+          <p className="mt-4">Encoding a sample and comparing it to the source...</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-2 mb-4">
+            <div>
+              <div className="font-bold">Size</div>
+              {bytes(result.encodedBytes)} instead of {bytes(Math.round(result.sourceBytes))} (
+              {Math.round(result.sizeRatio * 100)}%)
+              {result.segmentSeconds && (
+                <div className="text-gray-500">
+                  Whole file: about {bytes(Math.round(result.projectedBytes))}, taking about{' '}
+                  {formatSeconds(result.projectedEncodeSeconds)}
+                </div>
+              )}
+            </div>
+            <div>
+              <div className="font-bold">Quality</div>
+              SSIM {formatMetric(result.ssim, 4)}, PSNR {formatMetric(result.psnr, 1, ' dB')}
+              <div className="text-gray-500">
+                VMAF {result.vmaf === null ? 'needs ffmpeg with libvmaf' : result.vmaf.toFixed(1)}
+              </div>
+            </div>
+            <div>
+              <div className="font-bold">Tested</div>
+              {result.segmentSeconds
+                ? `A ${result.segmentSeconds}s sample of the video`
+                : 'The whole file'}
+              , encoded in {formatSeconds(result.encodeSeconds)}
+            </div>
+          </div>
+          <div className="relative w-full select-none">
+            <img src={result.encodedFrame} className="w-full" />
+            <img
+              src={result.sourceFrame}
+              className="w-full absolute top-0 left-0"
+              style={{ clipPath: `inset(0 ${100 - split}% 0 0)` }}
+            />
+          </div>
+          <Slider value={split} onChange={setSplit} tooltip={{ open: false }} />
+          <div className="flex flex-row justify-between text-gray-500">
+            <span>Source</span>
+            <span>Encoded</span>
+          </div>
+        </>
+      )}
+    </Modal>
+  )
+}
@@ -0,0 +1,74 @@
+import { Button, Popover, Select } from 'antd'
+import { DirItem, TrackAction, TrackActions, TrackInfo } from '../../../types'
+
+const audioActions: { value: TrackAction; label: string }[] = [
+  { value: 'convert', label: 'Convert' },
+  { value: 'copy', label: 'Copy as-is' },
+  { value: 'drop', label: 'Leave out' }
+]
+
+// Subtitles are always copied or converted to what the container holds, so they're only kept or not
+const subtitleActions: { value: TrackAction; label: string }[] = [
+  { value: 'convert', label: 'Keep' },
+  { value: 'drop', label: 'Leave out' }
+]
+
+const describeTrack = (track: TrackInfo): string =>
+  [
+    track.language,
+    track.title,
+    track.codec,
+    track.channels ? `${track.channels} ch` : undefined,
+    track.bitrate ? `${Math.round(track.bitrate / 1000)} kb/s` : undefined
+  ]
+    .filter(Boolean)
+    .join(' · ')
+
+// Lists a video's audio and subtitle tracks so single ones can be copied or left out of the conversion
+export default function TrackPicker({
+  dir,
+  disabled,
+  onChange
+}: {
+  dir: DirItem
+  disabled: boolean
+  onChange: (trackActions: TrackActions) => void
+}): JSX.Element | null {
+  const tracks = dir.media?.tracks ?? []
+  if (tracks.length === 0) return null
+
+  const actionOf = (track: TrackInfo): TrackAction => dir.trackActions?.[track.index] ?? 'convert'
+  const kept = tracks.filter((track) => actionOf(track) !== 'drop')
+  const audioCount = kept.filter((track) => track.type === 'audio').length
+  const subtitleCount = kept.length - audioCount
+
+  const content = (
+    <div className="flex flex-col gap-2">
+      {tracks.map((track) => (
+        <div key={track.index} className="flex flex-row justify-between items-center gap-4">
+          <span>
+            <span className="font-bold">
+              {track.type === 'audio' ? 'Audio' : 'Subtitle'} #{track.index}
+            </span>{' '}
+            {describeTrack(track)}
+          </span>
+          <Select
+            className="w-32"
+            disabled={disabled}
+            value={actionOf(track)}
+            options={track.type === 'audio' ? audioActions : subtitleActions}
+            onChange={(action) => onChange({ ...dir.trackActions, [track.index]: action })}
+          />
+        </div>
+      ))}
+    </div>
+  )
+
+  return (
+    <Popover content={content} title="Tracks" trigger="click" placement="bottom">
+      <Button size="small" className="ml-2" title="Pick the tracks to keep">
+        {audioCount} audio · {subtitleCount} sub
+      </Button>
+    </Popover>
+  )
+}
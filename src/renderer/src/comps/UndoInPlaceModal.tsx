@@ -0,0 +1,85 @@
+import { useState, useEffect } from 'react'
+import { Button, Modal, notification } from 'antd'
+import { InPlaceRun, UndoResult } from '../../../types'
+
+// Lists the in-place runs that can still be undone - undoing puts the backed up originals back
+export default function UndoInPlaceModal({
+  open,
+  onClose
+}: {
+  open: boolean
+  onClose: () => void
+}): JSX.Element {
+  const [runs, setRuns] = useState<InPlaceRun[]>([])
+  const [undoing, setUndoing] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadRuns = async (): Promise<void> => {
+      setRuns(await window.electron.ipcRenderer.invoke('GET_IN_PLACE_RUNS'))
+    }
+    if (open) loadRuns()
+  }, [open])
+
+  const handleUndo = async (run: InPlaceRun): Promise<void> => {
+    setUndoing(run.runDir)
+    const res: UndoResult = await window.electron.ipcRenderer.invoke(
+      'UNDO_IN_PLACE_RUN',
+      run.runDir
+    )
+    setUndoing(null)
+    setRuns(await window.electron.ipcRenderer.invoke('GET_IN_PLACE_RUNS'))
+
+    if (res.notRestored.length > 0) {
+      notification.warning({
+        message: 'Undo Partly Done',
+        description: `${res.restored} file(s) restored. These originals have to be restored from the trash or their backup by hand: ${res.notRestored.join(', ')}`,
+        placement: 'topRight',
+        duration: 0
+      })
+    } else {
+      notification.success({
+        message: 'Undo Done',
+        description: `${res.restored} original file(s) restored.`,
+        placement: 'topRight',
+        duration: 5
+      })
+    }
+  }
+
+  return (
+    <Modal title="Undo in-place conversions" open={open} onCancel={onClose} footer={null}>
+      {runs.length === 0 ? (
+        <p>There are no in-place conversions to undo.</p>
+      ) : (
+        <p className="mb-4">
+          Undoing removes the converted files of a run and puts the originals back. Runs that sent
+          their originals to the trash can&apos;t be undone here - they are listed so you know what
+          to restore from the trash by hand.
+        </p>
+      )}
+      {runs.map((run) => (
+        <div
+          key={run.runDir}
+          className="flex flex-row justify-between items-center border-b border-gray-300 py-2"
+        >
+          <div>
+            <div className="font-bold">{new Date(run.createdAt).toLocaleString()}</div>
+            <div className="text-gray-500">
+              {run.files} file(s) replaced, originals{' '}
+              {run.originals === 'trash' ? 'in the trash' : 'backed up'}
+            </div>
+          </div>
+          <Button
+            danger
+            disabled={run.originals === 'trash'}
+            title={run.originals === 'trash' ? 'Restore the originals from the trash' : undefined}
+            loading={undoing === run.runDir}
+            onClick={() => handleUndo(run)}
+          >
+            Undo
+          </Button>
+        </div>
+      ))}
+    </Modal>
+  )
+}
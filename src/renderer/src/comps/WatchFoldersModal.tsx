@@ -0,0 +1,167 @@
+import { useState, useEffect } from 'react'
+import { Button, Input, Modal, Select, Switch, Tag, notification } from 'antd'
+import { IpcRendererEvent } from 'electron'
+import { ConversionPreset, WatchActivityStatus, WatchState } from '../../../types'
+
+const statusColors: Record<WatchActivityStatus, string> = {
+  queued: 'blue',
+  converted: 'green',
+  skipped: 'default',
+  failed: 'red',
+  interrupted: 'orange'
+}
+
+// Drop folders whose new files are converted automatically by the main process, also while this is closed
+export default function WatchFoldersModal({
+  open,
+  presets,
+  onClose
+}: {
+  open: boolean
+  presets: ConversionPreset[]
+  onClose: () => void
+}): JSX.Element {
+  const [watchState, setWatchState] = useState<WatchState>({ folders: [], activity: [] })
+  const [inputDir, setInputDir] = useState<string>('')
+  const [outputDir, setOutputDir] = useState<string>('')
+  const [presetName, setPresetName] = useState<string>('default')
+
+  useEffect(() => {
+    const loadWatchState = async (): Promise<void> => {
+      setWatchState(await window.electron.ipcRenderer.invoke('GET_WATCH_FOLDERS'))
+    }
+    loadWatchState()
+    const handleWatchUpdated = (_event: IpcRendererEvent, state: WatchState): void =>
+      setWatchState(state)
+    window.electron.ipcRenderer.on('WATCH_UPDATED', handleWatchUpdated)
+    return (): void => {
+      window.electron.ipcRenderer.removeListener('WATCH_UPDATED', handleWatchUpdated)
+    }
+  }, [])
+
+  // Same folder picker as the Output button, a cancelled dialog leaves the field as it was
+  const pickFolder = async (setFolder: (folder: string) => void): Promise<void> => {
+    try {
+      setFolder(await window.electron.ipcRenderer.invoke('SELECT_OUTPUT_DIR'))
+    } catch (err) {
+      // Selection cancelled
+    }
+  }
+
+  const handleAdd = async (): Promise<void> => {
+    try {
+      setWatchState(
+        await window.electron.ipcRenderer.invoke('ADD_WATCH_FOLDER', {
+          inputDir,
+          outputDir,
+          presetName
+        })
+      )
+      setInputDir('')
+    } catch (err) {
+      notification.error({
+        message: 'Could Not Watch Folder',
+        description: (err as Error).message,
+        placement: 'topRight',
+        duration: 5
+      })
+    }
+  }
+
+  const folderOf = (folderId: string): string =>
+    watchState.folders.find((f) => f.id === folderId)?.inputDir ?? ''
+
+  return (
+    <Modal title="Watch folders" open={open} onCancel={onClose} footer={null} width="60%">
+      <p className="mb-4">
+        New media in a watched folder is converted once it stops growing. Files that are already
+        there when the folder is added are left alone.
+      </p>
+      {watchState.folders.map((folder) => (
+        <div
+          key={folder.id}
+          className="flex flex-row justify-between items-center border-b border-gray-300 py-2"
+        >
+          <div>
+            <div className="font-bold">{folder.inputDir}</div>
+            <div className="text-gray-500">
+              To {folder.outputDir} with preset {folder.presetName}
+            </div>
+          </div>
+          <div className="flex flex-row items-center gap-2">
+            <Switch
+              checked={folder.enabled}
+              onChange={async (enabled) =>
+                setWatchState(
+                  await window.electron.ipcRenderer.invoke(
+                    'SET_WATCH_FOLDER_ENABLED',
+                    folder.id,
+                    enabled
+                  )
+                )
+              }
+            />
+            <Button
+              danger
+              onClick={async () =>
+                setWatchState(
+                  await window.electron.ipcRenderer.invoke('REMOVE_WATCH_FOLDER', folder.id)
+                )
+              }
+            >
+              Remove
+            </Button>
+          </div>
+        </div>
+      ))}
+      <div className="flex flex-row items-center gap-2 py-4">
+        <Input
+          readOnly
+          placeholder="Watched folder"
+          value={inputDir}
+          onClick={() => pickFolder(setInputDir)}
+        />
+        <Input
+          readOnly
+          placeholder="Output folder"
+          value={outputDir}
+          onClick={() => pickFolder(setOutputDir)}
+        />
+        <Select
+          value={presetName}
+          onChange={setPresetName}
+          options={presets.map((preset) => ({ value: preset.name, label: preset.name }))}
+          className="w-[180px]"
+        />
+        <Button type="primary" disabled={!inputDir || !outputDir} onClick={handleAdd}>
+          Watch
+        </Button>
+      </div>
+      {watchState.activity.length > 0 && (
+        <>
+          <div className="font-bold mb-2">Recent activity</div>
+          <div className="max-h-64 overflow-y-auto">
+            {watchState.activity.map((activity) => (
+              <div
+                key={`${activity.folderId}:${activity.inputPath}`}
+                className="flex flex-row justify-between items-center py-1"
+                title={activity.message}
+              >
+                <span className="truncate">
+                  {activity.inputPath.slice(folderOf(activity.folderId).length + 1) ||
+                    activity.inputPath}
+                </span>
+                <span className="whitespace-nowrap">
+                  <span className="text-gray-500 mr-2">
+                    {new Date(activity.at).toLocaleString()}
+                  </span>
+                  <Tag color={statusColors[activity.status]}>{activity.status}</Tag>
+                </span>
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+    </Modal>
+  )
+}
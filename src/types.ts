@@ -6,25 +6,392 @@ export type DirItem = {
   type: 'file' | 'folder'
   ext?: 'video' | 'audio' | 'image'
   size: string
+  sizeBytes?: number // Folders count their media files only
   duration?: string
   children?: DirItem[]
   isExpanded?: boolean
   progress?: number
+  status?: ItemStatus
+  statusReason?: string // Why a file was skipped or kept as-is, shown next to its status
+  failure?: FailedItem
+  media?: MediaInfo // Files only, from ffprobe
+  trackActions?: TrackActions // Videos only, what the user picked for each track
+  duplicateOf?: string // Path of an identical file in the selection - only that one is converted, see duplicates.ts
+  similarTo?: string // Images only, path of a near-identical image (perceptual hash)
 }
 
+// What ffprobe found in a file - every field is optional since containers report wildly different things
+export type MediaInfo = {
+  videoCodec?: string
+  audioCodec?: string
+  width?: number
+  height?: number
+  frameRate?: number
+  bitrate?: number // Bits per second of the whole file
+  channelLayout?: string // e.g. 'stereo' or '5.1(side)'
+  pixelFormat?: string // e.g. 'yuv420p10le'
+  hdr?: HdrFormat
+  alpha?: boolean // The pixel format has a transparency channel (or a palette that may have one, as in GIF)
+  animated?: boolean // Images only - GIF, WebP or APNG with more than one frame
+  tracks?: TrackInfo[] // Videos only - their audio and subtitle tracks
+}
+
+// An audio or subtitle track of a video, as ffprobe reported it
+export type TrackInfo = {
+  index: number // Stream index in the file, what -map refers to
+  type: 'audio' | 'subtitle'
+  codec?: string
+  language?: string // e.g. 'eng'
+  title?: string // e.g. 'Director commentary'
+  channels?: number
+  bitrate?: number
+}
+
+// 'convert' encodes an audio track with the preset's settings and turns a subtitle track into a format the
+// container can hold, 'copy' keeps an audio track as it is. Tracks without an action are converted
+export type TrackAction = 'convert' | 'copy' | 'drop'
+export type TrackActions = Record<number, TrackAction> // By TrackInfo.index
+
+export type HdrFormat = 'HDR10' | 'HLG' | 'Dolby Vision'
+
+// Set on a file's row once the main process reports something other than plain progress
+export type ItemStatus =
+  | 'cancelled'
+  | 'failed'
+  | 'skipped'
+  | 'kept-original'
+  | 'target-met' // Target-size mode only, whether the video came out within the size
+  | 'target-missed'
+
 export type ExplorerContextType = {
   explorer: DirItem[]
   setExplorer: React.Dispatch<React.SetStateAction<DirItem[]>>
   convertClicked: boolean
   setConvertClicked: React.Dispatch<React.SetStateAction<boolean>>
+  conversionPaused: boolean
+  setConversionPaused: React.Dispatch<React.SetStateAction<boolean>>
+  presetName: string
+  setPresetName: React.Dispatch<React.SetStateAction<string>>
+  scanning: boolean // A selection is still being scanned, the explorer isn't complete yet
+  setScanning: React.Dispatch<React.SetStateAction<boolean>>
   expandFolder: (size: string, index: number, depth: number) => void
   deleteItem: (size: string, index: number, depth: number) => void
 }
 
+// A path the scan couldn't read - listed to the user instead of silently leaving it out
+export type ScanError = {
+  path: string
+  message: string
+}
+
+// A media file found while scanning, with the folders between the scanned path and the file (outermost first)
+export type ScannedFile = {
+  folders: Pick<DirItem, 'path' | 'name'>[]
+  item: DirItem
+}
+
+// Sent as SCAN_PROGRESS while a scan runs - only what was found since the last update
+export type ScanProgress = {
+  scannedFiles: number // All files looked at so far, media or not
+  found: ScannedFile[]
+  errors: ScanError[]
+}
+
+export type ScanResult = {
+  items: DirItem[]
+  errors: ScanError[]
+  cancelled: boolean // Stopped by the user, items holds what was scanned until then
+}
+
 export type ext = 'video' | 'audio' | 'image' | null | undefined
 
 export type ConversionQueue = {
   type: ext
   inputPath: string
-  outputPath: string
+  outputPath: string // Where the output goes, without extension - see getOutputFile in ffmpegUtils.ts
+  finalPath?: string // In-place mode only - outputPath is a temp name next to the source, this replaces the original
+  preset: ConversionPreset
+  durationSeconds?: number // Video/audio only - drives per-file percent and the batch progress weighting
+  pixels?: number // Images only - weighting for the batch progress
+  inputBytes?: number
+  tracks?: TrackInfo[] // Videos only - missing in manifests from before tracks were mapped
+  trackActions?: TrackActions
+  imageTraits?: ImageTraits // Images only
+  duplicates?: DuplicateTarget[] // Identical inputs that get this item's output instead of a conversion of their own
+}
+
+export type DuplicateTarget = {
+  inputPath: string
+  outputPath: string // Extensionless like outputPath, the extension of the actual output is added
+}
+
+// Preset settings per media type - every field maps to an ffmpeg option in ffmpegUtils.ts
+export type VideoPresetSettings = {
+  codec: string // Video encoder, e.g. 'libsvtav1'
+  crf: number // Quality level - lower is better quality and bigger files
+  encoderPreset: string // Speed/efficiency trade-off of the encoder, e.g. '6' for svt-av1
+  audioCodec: string
+  audioBitrate: string // e.g. '64k'
+  audioChannels: number // 1 for mono, 2 for stereo
+  container: string // Output extension, e.g. 'mp4' or 'mkv'
+  maxWidth: number // Videos wider than this are downscaled, the aspect ratio is kept
+}
+
+// Each target brings its own encoder and container - see audioTargets in encoderOptions.ts
+export type AudioTarget = 'mp3' | 'opus' | 'aac' | 'flac'
+
+export type AudioPresetSettings = {
+  target: AudioTarget
+  bitrate: string // Ignored by flac
+  quality?: number // MP3 only - LAME's VBR quality (-q:a), overrides the bitrate
+  channels: number // 1 for mono, 2 for stereo
+  sampleRate?: number // Left out, the target's own rate is used (opus only knows 48000 and fractions of it)
+  loudness?: number // Integrated loudness to normalize to in LUFS (e.g. -16 for podcasts), left out keeps levels
+}
+
+export type ImagePresetSettings = {
+  codec: string
+  crf: number
+  encoderPreset: string
+  container: string
+  maxWidth: number
+  lossless?: boolean // Pixel exact AV1 via libaom for screenshots and line art, crf is ignored then
+  animatedContainer: 'avif' | 'webm' // Animated inputs become an AVIF sequence or a WebM video
+}
+
+// What decides how an image is encoded besides the preset - see imageEncoderOptions in encoderOptions.ts
+export type ImageTraits = Pick<MediaInfo, 'alpha' | 'animated'>
+
+export type ConversionPreset = {
+  name: string
+  description?: string
+  stripPrivateMetadata: boolean // Drop GPS, serial numbers and owner names instead of copying them over
+  video: VideoPresetSettings
+  audio: AudioPresetSettings
+  image: ImagePresetSettings
+}
+
+// 'kept-original' is done too - the conversion didn't pay off so the output is a copy of the input
+export type JobEntryStatus =
+  | 'pending'
+  | 'running'
+  | 'done'
+  | 'kept-original'
+  | 'failed'
+  | 'cancelled'
+
+// Summary of a job manifest left behind by a crash or quit, offered for resuming on launch
+export type UnfinishedJob = {
+  manifestPath: string
+  outputDir: string
+  presetName: string
+  createdAt: string
+  updatedAt: string
+  total: number
+  done: number
+}
+
+// What went wrong with a file, derived from ffmpeg's error output - decides whether a retry makes sense
+export type FailureKind =
+  | 'corrupt-input'
+  | 'unsupported-codec'
+  | 'disk-full'
+  | 'encoder-missing'
+  | 'unknown'
+
+export type ErrorPolicy = {
+  continueOnError: boolean // Record failed files and keep going instead of stopping the whole batch
+  maxRetries: number
+  retryOn: FailureKind[]
+  fallbackEncoder: string // Video/image encoder used for retries, empty to keep the preset's encoder
+}
+
+// Files that gain little from converting again - checked while the queue is built, against ffprobe's details
+export type SkipPolicy = {
+  enabled: boolean
+  action: 'copy' | 'omit' // Copy the original into the output tree as-is, or leave it out entirely
+  codecs: string[] // ffprobe codec names, e.g. 'av1' (AV1 video and AVIF images) or 'opus'
+  minSizeBytes: number // Anything smaller is already tiny
+  videoBitsPerPixel: number // Bitrate / (width * height * fps) below this is already compact, 0 disables
+  imageBitsPerPixel: number // File size in bits / (width * height), 0 disables
+  audioKbps: number // Audio at or below this bitrate, 0 disables
+}
+
+// Checked after each conversion - outputs that aren't meaningfully smaller are replaced by a copy of the input
+// How the video bitrate is chosen - 'crf' is a single pass at the preset's quality, 'target-size' a real
+// two-pass encode at whatever bitrate makes each video come out at most targetBytes big
+export type VideoRateMode = 'crf' | 'target-size'
+
+export type VideoRate = {
+  mode: VideoRateMode
+  targetBytes: number
+}
+
+export type SizeGuard = {
+  enabled: boolean
+  minSavingsPercent: number // 0 keeps the original only when the output came out bigger
+}
+
+// What happens when an output file already exists, or two inputs would end up with the same output name
+export type CollisionPolicy = 'overwrite' | 'skip' | 'auto-number' | 'fail'
+
+export type NamingOptions = {
+  // Output name without extension. Tokens: {name} {ext} {preset} {date} {width} {height} {relpath},
+  // may contain / for subfolders. See outputNaming.ts
+  template: string
+  flatten: boolean // Everything goes straight into the output folder instead of mirroring the input tree
+  collision: CollisionPolicy
+}
+
+// Converts files next to their source and replaces the originals, see inPlace.ts
+export type InPlaceOptions = {
+  enabled: boolean
+  originals: 'trash' | 'backup' // Where replaced originals go - only backups can be restored by undo
+  backupDir: string // Holds the backups and undo journal of each run, empty for the default location
+}
+
+// A finished or interrupted in-place run that can still be undone
+export type InPlaceRun = {
+  runDir: string
+  createdAt: string
+  originals: InPlaceOptions['originals']
+  files: number
+}
+
+export type UndoResult = {
+  restored: number
+  // Originals that couldn't be brought back (trashed, or the backup is gone) - their output is left alone
+  notRestored: string[]
+}
+
+// What converting a selection is expected to produce - see estimate.ts
+export type SelectionEstimate = {
+  files: number
+  inputBytes: number // Media files only
+  projectedBytes: number
+  projectedEncodeSeconds: number
+  sampledFiles: number // How many files the projection is based on
+}
+
+// What a test encode of one file found - see testEncode.ts. Metrics are null when ffmpeg couldn't compute them
+export type TestEncodeResult = {
+  segmentSeconds?: number // Videos only, images are encoded whole
+  sourceBytes: number // The source's share of bytes for the tested segment
+  encodedBytes: number
+  sizeRatio: number // encodedBytes / sourceBytes
+  projectedBytes: number // The whole file converted at that ratio
+  encodeSeconds: number
+  projectedEncodeSeconds: number
+  ssim: number | null // 0-1, 1 is identical
+  psnr: number | null // dB, higher is better, Infinity for identical frames
+  vmaf: number | null // 0-100, null too when ffmpeg was built without libvmaf
+  sourceFrame: string // PNG data URLs of the same frame, at the encoded size
+  encodedFrame: string
+}
+
+// What the other copies of a duplicate get once one copy is converted. Only applies to files marked as
+// duplicates in the file view, in place every copy is converted on its own
+export type DuplicateAction = 'hardlink' | 'copy' | 'leave-out'
+
+export type DuplicateOptions = {
+  action: DuplicateAction
+}
+
+// Files of the selection that hold the same content - 'similar' groups are images that only look the same
+export type DuplicateGroup = {
+  kind: 'exact' | 'similar'
+  paths: string[] // The first one is the copy that's converted
+  sizeBytes: number // Of the first one
+}
+
+// Batch-wide settings that aren't tied to a preset
+export type ConversionOptions = {
+  errorPolicy: ErrorPolicy
+  skipPolicy: SkipPolicy
+  sizeGuard: SizeGuard
+  naming: NamingOptions
+  inPlace: InPlaceOptions
+  videoRate: VideoRate
+  duplicates: DuplicateOptions
+}
+
+export type FailedItem = {
+  inputPath: string
+  kind: FailureKind
+  message: string
+  stderr: string // The tail of ffmpeg's stderr, shown in the failure report
+  attempts: number
+}
+
+// How a batch ended, for waitForBatch - files not in either list were converted
+export type BatchOutcome = {
+  failures: FailedItem[]
+  skipped: Record<string, string> // Input path to why it wasn't converted: skip policy, output exists, duplicate or kept original
+}
+
+// Whole-batch progress computed in the main process, sent with BATCH_PROGRESS
+export type BatchProgress = {
+  percent: number // Weighted by each file's duration (video/audio) or pixel count (images)
+  doneFiles: number
+  totalFiles: number
+  elapsedMs: number // Time spent paused isn't counted
+  etaMs: number | null // Null until there's enough progress to extrapolate from
+  bytesPerSecond: number // Input bytes converted per second
+  paused: boolean
+}
+
+// A drop folder whose new media is converted automatically, see watchFolders.ts
+export type WatchFolder = {
+  id: string
+  inputDir: string
+  outputDir: string
+  presetName: string
+  enabled: boolean
+}
+
+// 'queued' once a new file stopped growing and was handed to a batch, 'skipped' if the batch didn't convert it
+// (skip policy, output exists, duplicate or kept original), 'interrupted' if that batch was stopped
+export type WatchActivityStatus = 'queued' | 'converted' | 'skipped' | 'failed' | 'interrupted'
+
+export type WatchActivity = {
+  folderId: string
+  inputPath: string
+  status: WatchActivityStatus
+  at: string // ISO date of the last status change
+  message?: string // Why it failed or was skipped
+}
+
+// What the watch folders view shows, sent with WATCH_UPDATED
+export type WatchState = {
+  folders: WatchFolder[]
+  activity: WatchActivity[] // Newest first
+}
+
+// Conversion history, see history.ts
+export type HistoryEntryStatus = 'converted' | 'kept-original' | 'skipped' | 'failed' | 'cancelled'
+
+export type HistoryEntry = {
+  inputPath: string
+  outputFile?: string // The converted file, or the copy of the input for kept originals and copied skips
+  type: ext
+  status: HistoryEntryStatus
+  inputBytes?: number
+  outputBytes?: number
+  durationSeconds?: number // Audio, video and animated images
+  encodeSeconds?: number // Including retries
+  reason?: string // Why it was skipped, kept as-is or failed
+}
+
+// 'interrupted' runs were still going when the app quit or crashed
+export type HistoryRunOutcome = 'running' | 'completed' | 'stopped' | 'interrupted'
+
+export type HistoryRun = {
+  id: string
+  source: 'manual' | 'watch' | 'resume'
+  startedAt: string
+  finishedAt?: string
+  outcome: HistoryRunOutcome
+  outputDir: string // The run folder for in-place runs
+  presetName: string
+  entries: HistoryEntry[]
 }